@@ -0,0 +1,332 @@
+import type { Request } from 'express';
+import { resolveRef, type OpenApiOperation } from '../openapi/document';
+import { getIssuerVerifyOptions } from './issuer';
+import { JwtError, looksLikeJwt, verifyJwt, type JwtVerifyOptions } from './jwt';
+
+export interface AuthJwtConfig {
+  secret?: string;
+  secretEnv?: string;
+  publicKey?: string;
+  publicKeyEnv?: string;
+  algorithms?: string[];
+  issuer?: string;
+  audience?: string;
+  clockToleranceSec?: number;
+  issuerApi?: string;
+}
+
+export interface AuthConfig {
+  mode?: 'off' | 'decode' | 'enforce';
+  jwt?: AuthJwtConfig;
+  apiKeys?: string[];
+  apiKeysEnv?: string;
+  basic?: Record<string, string>;
+}
+
+export interface AuthInfo {
+  schemes: string[];
+  claims: Record<string, unknown>;
+  token?: string;
+}
+
+export type AuthOutcome =
+  | { ok: true; auth?: AuthInfo }
+  | { ok: false; status: number; body: unknown; headers: Record<string, string> };
+
+export type Authenticator = (req: Request) => AuthOutcome;
+
+interface SchemeResult {
+  ok: boolean;
+  status: number;
+  presented?: boolean;
+  message?: string;
+  challenge?: string;
+  claims?: Record<string, unknown>;
+  token?: string;
+}
+
+type SecurityRequirement = Record<string, string[]>;
+
+/**
+ * Builds the credential check for one operation from its effective security
+ * requirements (operation.security, falling back to the document). Returns
+ * null when auth is off.
+ */
+export function createAuthenticator(
+  openApi: unknown,
+  operation: OpenApiOperation | null,
+  config: AuthConfig
+): Authenticator | null {
+  const mode = config.mode ?? 'off';
+  if (mode === 'off') {
+    return null;
+  }
+  const requirements = resolveRequirements(openApi, operation);
+  const schemes = asRecord(asRecord(asRecord(openApi).components).securitySchemes);
+  const apiKeys = resolveApiKeys(config);
+
+  return (req): AuthOutcome => {
+    const jwtOptions = resolveJwtOptions(config.jwt);
+    if (requirements.length === 0 || requirements.some(requirement => Object.keys(requirement).length === 0)) {
+      return { ok: true, auth: jwtOptions ? anonymousAuth(req, jwtOptions) : undefined };
+    }
+
+    const failures: SchemeResult[] = [];
+    let partial: AuthInfo | undefined;
+    for (const requirement of requirements) {
+      const names = Object.keys(requirement);
+      const results = names.map(name =>
+        checkScheme(req, name, asRecord(resolveRef(openApi, schemes[name])), requirement[name] ?? [], {
+          jwtOptions,
+          issuerApi: config.jwt?.issuerApi,
+          apiKeys,
+          basic: config.basic
+        })
+      );
+      const info = mergeResults(names, results);
+      const failed = results.find(result => !result.ok);
+      if (!failed) {
+        return { ok: true, auth: info };
+      }
+      failures.push(failed);
+      partial = partial ?? (info.schemes.length > 0 ? info : undefined);
+    }
+
+    if (mode === 'decode') {
+      return { ok: true, auth: partial };
+    }
+    const failure =
+      failures.find(result => result.status === 403) ??
+      failures.find(result => result.presented) ??
+      failures[0];
+    return {
+      ok: false,
+      status: failure.status,
+      body: {
+        message: failure.status === 403 ? 'Forbidden' : 'Unauthorized',
+        error: failure.message
+      },
+      headers: failure.challenge ? { 'WWW-Authenticate': failure.challenge } : {}
+    };
+  };
+}
+
+function checkScheme(
+  req: Request,
+  name: string,
+  scheme: Record<string, unknown>,
+  scopes: string[],
+  options: {
+    jwtOptions: JwtVerifyOptions | null;
+    issuerApi?: string;
+    apiKeys: string[];
+    basic?: Record<string, string>;
+  }
+): SchemeResult {
+  const type = asString(scheme.type);
+  if (type === 'apiKey') {
+    const key = readApiKey(req, asString(scheme.in), asString(scheme.name) ?? '');
+    if (!key) {
+      return { ok: false, status: 401, message: `Missing API key for ${name}` };
+    }
+    if (options.apiKeys.length > 0 && !options.apiKeys.includes(key)) {
+      return { ok: false, status: 401, presented: true, message: `Invalid API key for ${name}` };
+    }
+    return { ok: true, status: 200, claims: {}, token: key };
+  }
+
+  const httpScheme = asString(scheme.scheme)?.toLowerCase();
+  if (type === 'http' && httpScheme === 'basic') {
+    const challenge = `Basic realm="${name}"`;
+    const credentials = readAuthorization(req, 'basic');
+    if (!credentials) {
+      return { ok: false, status: 401, message: 'Missing basic credentials', challenge };
+    }
+    const decoded = Buffer.from(credentials, 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    const user = separator >= 0 ? decoded.slice(0, separator) : decoded;
+    const password = separator >= 0 ? decoded.slice(separator + 1) : '';
+    if (options.basic && options.basic[user] !== password) {
+      return { ok: false, status: 401, presented: true, message: 'Invalid basic credentials', challenge };
+    }
+    return { ok: true, status: 200, claims: { sub: user }, token: credentials };
+  }
+
+  if (type === 'http' || type === 'oauth2' || type === 'openIdConnect') {
+    const token = readAuthorization(req, httpScheme && type === 'http' ? httpScheme : 'bearer');
+    const label = type === 'http' && httpScheme && httpScheme !== 'bearer' ? capitalize(httpScheme) : 'Bearer';
+    if (!token) {
+      return { ok: false, status: 401, message: 'Missing bearer token', challenge: `${label} realm="${name}"` };
+    }
+    const jwtOptions = options.jwtOptions;
+    if (!jwtOptions) {
+      // Without the issuer's keys a token could only be decoded, never verified.
+      return {
+        ok: false,
+        status: 401,
+        presented: true,
+        message: `Issuer API ${options.issuerApi} not loaded`,
+        challenge: `${label} realm="${name}", error="invalid_token"`
+      };
+    }
+    let claims: Record<string, unknown> = {};
+    if (looksLikeJwt(token)) {
+      try {
+        claims = verifyJwt(token, jwtOptions).claims;
+      } catch (error) {
+        const message = error instanceof JwtError ? error.message : String(error);
+        return {
+          ok: false,
+          status: 401,
+          presented: true,
+          message,
+          challenge: `${label} realm="${name}", error="invalid_token", error_description="${message}"`
+        };
+      }
+    } else if (jwtOptions.secret || jwtOptions.publicKey) {
+      return {
+        ok: false,
+        status: 401,
+        presented: true,
+        message: 'Token is not a JWT',
+        challenge: `${label} realm="${name}", error="invalid_token"`
+      };
+    }
+    const granted = readScopes(claims);
+    const missing = scopes.filter(scope => !granted.includes(scope));
+    if (missing.length > 0) {
+      return {
+        ok: false,
+        status: 403,
+        message: `Missing scope(s): ${missing.join(', ')}`,
+        challenge: `${label} realm="${name}", error="insufficient_scope", scope="${scopes.join(' ')}"`,
+        claims,
+        token
+      };
+    }
+    return { ok: true, status: 200, claims, token };
+  }
+
+  return { ok: false, status: 401, message: `Unsupported security scheme ${name}` };
+}
+
+function mergeResults(names: string[], results: SchemeResult[]): AuthInfo {
+  const info: AuthInfo = { schemes: [], claims: {} };
+  results.forEach((result, index) => {
+    if (!result.claims) {
+      return;
+    }
+    info.schemes.push(names[index]);
+    info.claims = { ...info.claims, ...result.claims };
+    info.token = info.token ?? result.token;
+  });
+  return info;
+}
+
+function anonymousAuth(req: Request, jwtOptions: JwtVerifyOptions): AuthInfo | undefined {
+  const token = readAuthorization(req, 'bearer');
+  if (!token || !looksLikeJwt(token)) {
+    return undefined;
+  }
+  try {
+    return { schemes: [], claims: verifyJwt(token, jwtOptions).claims, token };
+  } catch (_error) {
+    return undefined;
+  }
+}
+
+function resolveRequirements(openApi: unknown, operation: OpenApiOperation | null): SecurityRequirement[] {
+  const raw = operation?.operation.security ?? asRecord(openApi).security;
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.map(item => {
+    const requirement: SecurityRequirement = {};
+    Object.entries(asRecord(item)).forEach(([name, scopes]) => {
+      requirement[name] = Array.isArray(scopes) ? scopes.map(String) : [];
+    });
+    return requirement;
+  });
+}
+
+/** Returns null when `issuerApi` names an issuer that is not loaded. */
+function resolveJwtOptions(config: AuthJwtConfig | undefined): JwtVerifyOptions | null {
+  const issuerOptions = config?.issuerApi ? getIssuerVerifyOptions(config.issuerApi) : undefined;
+  if (config?.issuerApi && !issuerOptions) {
+    return null;
+  }
+  return {
+    secret:
+      config?.secret ?? (config?.secretEnv ? process.env[config.secretEnv] : undefined) ?? issuerOptions?.secret,
+    publicKey:
+      config?.publicKey ??
+      (config?.publicKeyEnv ? process.env[config.publicKeyEnv] : undefined) ??
+      issuerOptions?.publicKey,
+    algorithms: config?.algorithms ?? issuerOptions?.algorithms,
+    issuer: config?.issuer ?? issuerOptions?.issuer,
+    audience: config?.audience,
+    clockToleranceSec: config?.clockToleranceSec
+  };
+}
+
+function resolveApiKeys(config: AuthConfig): string[] {
+  const fromEnv = config.apiKeysEnv ? process.env[config.apiKeysEnv] ?? '' : '';
+  return [
+    ...(config.apiKeys ?? []),
+    ...fromEnv.split(',').map(item => item.trim()).filter(Boolean)
+  ];
+}
+
+function readApiKey(req: Request, location: string | undefined, name: string): string | undefined {
+  if (location === 'query') {
+    const value = req.query[name];
+    return typeof value === 'string' && value !== '' ? value : undefined;
+  }
+  if (location === 'cookie') {
+    const cookies = (req.headers.cookie ?? '').split(';').map(item => item.trim());
+    const match = cookies.find(item => item.startsWith(`${name}=`));
+    if (!match) {
+      return undefined;
+    }
+    const raw = match.slice(name.length + 1);
+    try {
+      return decodeURIComponent(raw) || undefined;
+    } catch (_error) {
+      return raw || undefined;
+    }
+  }
+  const value = req.headers[name.toLowerCase()];
+  const header = Array.isArray(value) ? value[0] : value;
+  return header || undefined;
+}
+
+function readAuthorization(req: Request, scheme: string): string | undefined {
+  const header = req.headers.authorization ?? '';
+  const separator = header.indexOf(' ');
+  if (separator < 0 || header.slice(0, separator).toLowerCase() !== scheme) {
+    return undefined;
+  }
+  return header.slice(separator + 1).trim() || undefined;
+}
+
+function readScopes(claims: Record<string, unknown>): string[] {
+  const raw = claims.scope ?? claims.scp;
+  if (Array.isArray(raw)) {
+    return raw.map(String);
+  }
+  return typeof raw === 'string' ? raw.split(' ').filter(Boolean) : [];
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
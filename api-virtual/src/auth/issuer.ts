@@ -0,0 +1,439 @@
+import crypto from 'node:crypto';
+import express, { Request, Response, Router } from 'express';
+import { JwtError, signJwt, verifyJwt, type JwtVerifyOptions } from './jwt';
+
+export interface IssuerClient {
+  clientId: string;
+  clientSecret?: string;
+  grants?: string[];
+  scopes?: string[];
+  audience?: string;
+  claims?: Record<string, unknown>;
+}
+
+export interface IssuerUser {
+  username: string;
+  password: string;
+  sub?: string;
+  scopes?: string[];
+  claims?: Record<string, unknown>;
+}
+
+export interface IssuerConfig {
+  issuer?: string;
+  audience?: string;
+  algorithm?: string;
+  keyId?: string;
+  secret?: string;
+  secretEnv?: string;
+  privateKey?: string;
+  privateKeyEnv?: string;
+  accessTokenTtlSec?: number;
+  refreshTokenTtlSec?: number;
+  clients?: IssuerClient[];
+  users?: IssuerUser[];
+}
+
+interface IssuerKeys {
+  fingerprint: string;
+  algorithm: string;
+  keyId: string;
+  secret?: string;
+  privateKey?: crypto.KeyObject;
+  publicKey?: crypto.KeyObject;
+  publicKeyPem?: string;
+}
+
+interface RefreshGrant {
+  apiId: string;
+  clientId: string;
+  username?: string;
+  scope: string[];
+  expiresAt: number;
+}
+
+class OAuthError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'OAuthError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export const ISSUER_ROUTES = [
+  { method: 'get', path: '/.well-known/openid-configuration' },
+  { method: 'get', path: '/.well-known/jwks.json' },
+  { method: 'post', path: '/token' },
+  { method: 'get', path: '/userinfo' }
+];
+
+const DEFAULT_GRANTS = ['client_credentials', 'password', 'refresh_token'];
+const issuerKeys = new Map<string, IssuerKeys>();
+const issuerConfigs = new Map<string, IssuerConfig>();
+const refreshGrants = new Map<string, RefreshGrant>();
+
+/**
+ * Mounts the token, JWKS, discovery and userinfo endpoints of a virtual
+ * authorization server. Generated keys survive reloads while the signing
+ * configuration does not change.
+ */
+export function createIssuerRouter(apiId: string, basePath: string, config: IssuerConfig): Router {
+  const keys = resolveIssuerKeys(apiId, config);
+  issuerConfigs.set(apiId, config);
+  const router = Router();
+  const issuerFor = (req: Request) => config.issuer ?? `${req.protocol}://${req.get('host')}${basePath}`;
+
+  router.get('/.well-known/openid-configuration', (req, res) => {
+    const issuer = issuerFor(req);
+    const origin = `${req.protocol}://${req.get('host')}${basePath}`;
+    res.json({
+      issuer,
+      token_endpoint: `${origin}/token`,
+      jwks_uri: `${origin}/.well-known/jwks.json`,
+      userinfo_endpoint: `${origin}/userinfo`,
+      grant_types_supported: unique((config.clients ?? []).flatMap(client => client.grants ?? DEFAULT_GRANTS)),
+      response_types_supported: ['token'],
+      subject_types_supported: ['public'],
+      scopes_supported: unique([
+        'openid',
+        ...(config.clients ?? []).flatMap(client => client.scopes ?? []),
+        ...(config.users ?? []).flatMap(user => user.scopes ?? [])
+      ]),
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+      id_token_signing_alg_values_supported: [keys.algorithm]
+    });
+  });
+
+  router.get('/.well-known/jwks.json', (_req, res) => {
+    res.json({ keys: keys.publicKey ? [toJwk(keys)] : [] });
+  });
+
+  router.post('/token', express.urlencoded({ extended: false }), (req, res) => {
+    try {
+      res.setHeader('cache-control', 'no-store');
+      res.json(issueTokens(apiId, config, keys, issuerFor(req), req));
+    } catch (error) {
+      sendOAuthError(res, error);
+    }
+  });
+
+  router.get('/userinfo', (req, res) => {
+    const header = req.headers.authorization ?? '';
+    const token = header.toLowerCase().startsWith('bearer ') ? header.slice(7).trim() : '';
+    try {
+      if (!token) {
+        throw new JwtError('Missing bearer token');
+      }
+      const { claims } = verifyJwt(token, verifyOptions(keys, issuerFor(req)));
+      const user = (config.users ?? []).find(item => (item.sub ?? item.username) === claims.sub);
+      res.json(
+        user
+          ? { sub: claims.sub, preferred_username: user.username, ...user.claims }
+          : { sub: claims.sub, client_id: claims.client_id }
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.setHeader('WWW-Authenticate', `Bearer error="invalid_token", error_description="${message}"`);
+      res.status(401).json({ error: 'invalid_token', error_description: message });
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Verification settings for tokens minted by a local issuer API, used by
+ * `auth.jwt.issuerApi` in other APIs.
+ */
+export function getIssuerVerifyOptions(apiId: string): JwtVerifyOptions | undefined {
+  const keys = issuerKeys.get(apiId);
+  if (!keys) {
+    return undefined;
+  }
+  return verifyOptions(keys, issuerConfigs.get(apiId)?.issuer);
+}
+
+export function buildIssuerOpenApi(name: string, basePath: string): Record<string, unknown> {
+  const jsonResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { type: 'object' } } }
+  });
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: name,
+      version: '1.0.0',
+      description: 'Virtual OAuth2/OIDC authorization server.'
+    },
+    servers: [{ url: basePath }],
+    paths: {
+      '/.well-known/openid-configuration': {
+        get: { operationId: 'getOpenIdConfiguration', responses: { '200': jsonResponse('Discovery document') } }
+      },
+      '/.well-known/jwks.json': {
+        get: { operationId: 'getJwks', responses: { '200': jsonResponse('Public signing keys') } }
+      },
+      '/token': {
+        post: {
+          operationId: 'issueToken',
+          requestBody: {
+            required: true,
+            content: {
+              'application/x-www-form-urlencoded': {
+                schema: {
+                  type: 'object',
+                  required: ['grant_type'],
+                  properties: {
+                    grant_type: { type: 'string', enum: DEFAULT_GRANTS },
+                    client_id: { type: 'string' },
+                    client_secret: { type: 'string' },
+                    username: { type: 'string' },
+                    password: { type: 'string' },
+                    refresh_token: { type: 'string' },
+                    scope: { type: 'string' }
+                  }
+                }
+              }
+            }
+          },
+          responses: {
+            '200': jsonResponse('Issued tokens'),
+            '400': jsonResponse('OAuth error'),
+            '401': jsonResponse('Invalid client')
+          }
+        }
+      },
+      '/userinfo': {
+        get: {
+          operationId: 'getUserInfo',
+          responses: { '200': jsonResponse('Claims of the token subject'), '401': jsonResponse('Invalid token') }
+        }
+      }
+    }
+  };
+}
+
+function issueTokens(
+  apiId: string,
+  config: IssuerConfig,
+  keys: IssuerKeys,
+  issuer: string,
+  req: Request
+): Record<string, unknown> {
+  const body = asRecord(req.body);
+  const grantType = asString(body.grant_type);
+  if (!grantType) {
+    throw new OAuthError(400, 'invalid_request', 'grant_type is required');
+  }
+  if (!DEFAULT_GRANTS.includes(grantType)) {
+    throw new OAuthError(400, 'unsupported_grant_type', `Unsupported grant_type ${grantType}`);
+  }
+  const client = authenticateClient(config, req, body);
+  if (!(client.grants ?? DEFAULT_GRANTS).includes(grantType)) {
+    throw new OAuthError(400, 'unauthorized_client', `Client ${client.clientId} cannot use ${grantType}`);
+  }
+
+  let user: IssuerUser | undefined;
+  let scope: string[];
+  if (grantType === 'refresh_token') {
+    const token = asString(body.refresh_token) ?? '';
+    const grant = refreshGrants.get(token);
+    refreshGrants.delete(token);
+    if (!grant || grant.apiId !== apiId || grant.clientId !== client.clientId || grant.expiresAt < Date.now()) {
+      throw new OAuthError(400, 'invalid_grant', 'Invalid or expired refresh_token');
+    }
+    user = grant.username ? (config.users ?? []).find(item => item.username === grant.username) : undefined;
+    scope = grant.scope;
+  } else {
+    if (grantType === 'password') {
+      const username = asString(body.username);
+      user = (config.users ?? []).find(item => item.username === username);
+      if (!user || user.password !== asString(body.password)) {
+        throw new OAuthError(400, 'invalid_grant', 'Invalid username or password');
+      }
+    }
+    scope = resolveScope(asString(body.scope), user?.scopes ?? client.scopes);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const ttl = config.accessTokenTtlSec ?? 3600;
+  const audience = client.audience ?? config.audience;
+  const subject = user ? user.sub ?? user.username : client.clientId;
+  const sign = (claims: Record<string, unknown>) =>
+    signJwt(claims, {
+      algorithm: keys.algorithm,
+      secret: keys.secret,
+      privateKey: keys.privateKey,
+      keyId: keys.keyId
+    });
+
+  const response: Record<string, unknown> = {
+    access_token: sign({
+      ...(user ? user.claims : client.claims),
+      iss: issuer,
+      sub: subject,
+      ...(audience ? { aud: audience } : {}),
+      iat: now,
+      exp: now + ttl,
+      jti: crypto.randomUUID(),
+      client_id: client.clientId,
+      ...(user ? { preferred_username: user.username } : {}),
+      ...(scope.length > 0 ? { scope: scope.join(' ') } : {})
+    }),
+    token_type: 'Bearer',
+    expires_in: ttl
+  };
+  if (scope.length > 0) {
+    response.scope = scope.join(' ');
+  }
+  if (user && scope.includes('openid')) {
+    response.id_token = sign({
+      ...user.claims,
+      iss: issuer,
+      sub: subject,
+      aud: client.clientId,
+      iat: now,
+      exp: now + ttl,
+      preferred_username: user.username
+    });
+  }
+  if (grantType !== 'client_credentials' && (client.grants ?? DEFAULT_GRANTS).includes('refresh_token')) {
+    const refreshToken = crypto.randomBytes(24).toString('base64url');
+    refreshGrants.set(refreshToken, {
+      apiId,
+      clientId: client.clientId,
+      username: user?.username,
+      scope,
+      expiresAt: Date.now() + (config.refreshTokenTtlSec ?? 86400) * 1000
+    });
+    response.refresh_token = refreshToken;
+  }
+  return response;
+}
+
+function authenticateClient(
+  config: IssuerConfig,
+  req: Request,
+  body: Record<string, unknown>
+): IssuerClient {
+  let clientId = asString(body.client_id);
+  let clientSecret = asString(body.client_secret);
+  const header = req.headers.authorization ?? '';
+  if (header.toLowerCase().startsWith('basic ')) {
+    const decoded = Buffer.from(header.slice(6).trim(), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    try {
+      clientId = decodeURIComponent(separator >= 0 ? decoded.slice(0, separator) : decoded);
+      clientSecret = separator >= 0 ? decodeURIComponent(decoded.slice(separator + 1)) : undefined;
+    } catch (_error) {
+      throw new OAuthError(401, 'invalid_client', 'Malformed client credentials');
+    }
+  }
+  const client = (config.clients ?? []).find(item => item.clientId === clientId);
+  if (!client || (client.clientSecret !== undefined && client.clientSecret !== clientSecret)) {
+    throw new OAuthError(401, 'invalid_client', 'Client authentication failed');
+  }
+  return client;
+}
+
+function resolveScope(requested: string | undefined, allowed: string[] | undefined): string[] {
+  if (requested === undefined) {
+    return allowed ?? [];
+  }
+  const scope = requested.split(' ').filter(Boolean);
+  const rejected = allowed ? scope.filter(item => item !== 'openid' && !allowed.includes(item)) : [];
+  if (rejected.length > 0) {
+    throw new OAuthError(400, 'invalid_scope', `Scope(s) not allowed: ${rejected.join(', ')}`);
+  }
+  return scope;
+}
+
+function sendOAuthError(res: Response, error: unknown): void {
+  if (error instanceof OAuthError) {
+    if (error.status === 401) {
+      res.setHeader('WWW-Authenticate', 'Basic realm="token"');
+    }
+    res.status(error.status).json({ error: error.code, error_description: error.message });
+    return;
+  }
+  const message = error instanceof JwtError || error instanceof Error ? error.message : String(error);
+  res.status(500).json({ error: 'server_error', error_description: message });
+}
+
+function resolveIssuerKeys(apiId: string, config: IssuerConfig): IssuerKeys {
+  const algorithm = config.algorithm ?? 'RS256';
+  const secret = config.secret ?? (config.secretEnv ? process.env[config.secretEnv] : undefined);
+  const privateKeyPem = config.privateKey ?? (config.privateKeyEnv ? process.env[config.privateKeyEnv] : undefined);
+  const fingerprint = JSON.stringify([algorithm, config.keyId, secret, privateKeyPem]);
+  const cached = issuerKeys.get(apiId);
+  if (cached && cached.fingerprint === fingerprint) {
+    return cached;
+  }
+
+  let keys: IssuerKeys;
+  if (algorithm.startsWith('HS')) {
+    if (!secret) {
+      throw new Error(`Issuer ${apiId} uses ${algorithm} but has no secret`);
+    }
+    keys = { fingerprint, algorithm, keyId: config.keyId ?? apiId, secret };
+  } else {
+    const privateKey = privateKeyPem ? crypto.createPrivateKey(privateKeyPem) : generatePrivateKey(algorithm);
+    const publicKey = crypto.createPublicKey(privateKey);
+    keys = {
+      fingerprint,
+      algorithm,
+      keyId: config.keyId ?? `${apiId}-${crypto.randomBytes(4).toString('hex')}`,
+      privateKey,
+      publicKey,
+      publicKeyPem: publicKey.export({ type: 'spki', format: 'pem' }).toString()
+    };
+  }
+  issuerKeys.set(apiId, keys);
+  return keys;
+}
+
+function generatePrivateKey(algorithm: string): crypto.KeyObject {
+  if (algorithm === 'ES256' || algorithm === 'ES384') {
+    return crypto.generateKeyPairSync('ec', { namedCurve: algorithm === 'ES256' ? 'P-256' : 'P-384' }).privateKey;
+  }
+  if (algorithm.startsWith('RS') || algorithm.startsWith('PS')) {
+    return crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+  }
+  throw new Error(`Unsupported issuer algorithm ${algorithm}`);
+}
+
+function verifyOptions(keys: IssuerKeys, issuer: string | undefined): JwtVerifyOptions {
+  return {
+    secret: keys.secret,
+    publicKey: keys.publicKeyPem,
+    algorithms: [keys.algorithm],
+    issuer
+  };
+}
+
+function toJwk(keys: IssuerKeys): Record<string, unknown> {
+  return {
+    ...(keys.publicKey?.export({ format: 'jwk' }) ?? {}),
+    kid: keys.keyId,
+    alg: keys.algorithm,
+    use: 'sig'
+  };
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
@@ -0,0 +1,165 @@
+import crypto from 'node:crypto';
+
+export interface JwtVerifyOptions {
+  secret?: string;
+  publicKey?: string;
+  algorithms?: string[];
+  issuer?: string;
+  audience?: string;
+  clockToleranceSec?: number;
+}
+
+export interface JwtSignOptions {
+  algorithm: string;
+  secret?: string;
+  privateKey?: crypto.KeyObject | string;
+  keyId?: string;
+}
+
+export interface DecodedJwt {
+  header: Record<string, unknown>;
+  claims: Record<string, unknown>;
+}
+
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwtError';
+  }
+}
+
+const HASHES: Record<string, string> = {
+  '256': 'sha256',
+  '384': 'sha384',
+  '512': 'sha512'
+};
+
+export function looksLikeJwt(token: string): boolean {
+  return /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/.test(token);
+}
+
+export function decodeJwt(token: string): DecodedJwt {
+  const [header, payload] = token.split('.');
+  try {
+    return {
+      header: JSON.parse(Buffer.from(header, 'base64url').toString('utf8')) as Record<string, unknown>,
+      claims: JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Record<string, unknown>
+    };
+  } catch (_error) {
+    throw new JwtError('Malformed token');
+  }
+}
+
+/**
+ * Verifies signature (when a key is configured) and the registered time,
+ * issuer and audience claims. Without a key the token is only decoded.
+ */
+export function verifyJwt(token: string, options: JwtVerifyOptions): DecodedJwt {
+  if (!looksLikeJwt(token)) {
+    throw new JwtError('Malformed token');
+  }
+  const decoded = decodeJwt(token);
+  const alg = typeof decoded.header.alg === 'string' ? decoded.header.alg : '';
+  if (options.secret || options.publicKey) {
+    if (options.algorithms && !options.algorithms.includes(alg)) {
+      throw new JwtError(`Algorithm ${alg || '(none)'} is not allowed`);
+    }
+    const [header, payload, signature] = token.split('.');
+    if (!verifySignature(alg, `${header}.${payload}`, Buffer.from(signature, 'base64url'), options)) {
+      throw new JwtError('Invalid signature');
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSec ?? 0;
+  const { claims } = decoded;
+  if (typeof claims.exp === 'number' && now - tolerance >= claims.exp) {
+    throw new JwtError('Token expired');
+  }
+  if (typeof claims.nbf === 'number' && now + tolerance < claims.nbf) {
+    throw new JwtError('Token not yet valid');
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new JwtError(`Unexpected issuer ${String(claims.iss ?? '(none)')}`);
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new JwtError(`Unexpected audience ${String(claims.aud ?? '(none)')}`);
+    }
+  }
+  return decoded;
+}
+
+export function signJwt(claims: Record<string, unknown>, options: JwtSignOptions): string {
+  const header = { alg: options.algorithm, typ: 'JWT', ...(options.keyId ? { kid: options.keyId } : {}) };
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(claims)}`;
+  const hash = HASHES[options.algorithm.slice(2)];
+  if (!hash) {
+    throw new JwtError(`Unsupported algorithm ${options.algorithm}`);
+  }
+  let signature: Buffer;
+  if (options.algorithm.startsWith('HS')) {
+    if (!options.secret) {
+      throw new JwtError(`No secret configured for ${options.algorithm}`);
+    }
+    signature = crypto.createHmac(hash, options.secret).update(signingInput).digest();
+  } else if (options.privateKey) {
+    const key =
+      typeof options.privateKey === 'string' ? crypto.createPrivateKey(options.privateKey) : options.privateKey;
+    signature = crypto.sign(hash, Buffer.from(signingInput), {
+      key,
+      ...(options.algorithm.startsWith('ES') ? { dsaEncoding: 'ieee-p1363' as const } : {}),
+      ...(options.algorithm.startsWith('PS') ? { padding: crypto.constants.RSA_PKCS1_PSS_PADDING } : {})
+    });
+  } else {
+    throw new JwtError(`No private key configured for ${options.algorithm}`);
+  }
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+function encodeSegment(value: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function verifySignature(
+  alg: string,
+  signingInput: string,
+  signature: Buffer,
+  options: JwtVerifyOptions
+): boolean {
+  const hash = HASHES[alg.slice(2)];
+  if (!hash) {
+    throw new JwtError(`Unsupported algorithm ${alg || '(none)'}`);
+  }
+  if (alg.startsWith('HS')) {
+    if (!options.secret) {
+      throw new JwtError(`No secret configured for ${alg}`);
+    }
+    const expected = crypto.createHmac(hash, options.secret).update(signingInput).digest();
+    return expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+  }
+  if (!options.publicKey) {
+    throw new JwtError(`No public key configured for ${alg}`);
+  }
+  if (alg.startsWith('RS')) {
+    return crypto.verify(hash, Buffer.from(signingInput), options.publicKey, signature);
+  }
+  if (alg.startsWith('PS')) {
+    return crypto.verify(
+      hash,
+      Buffer.from(signingInput),
+      { key: options.publicKey, padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+      signature
+    );
+  }
+  if (alg.startsWith('ES')) {
+    return crypto.verify(
+      hash,
+      Buffer.from(signingInput),
+      { key: options.publicKey, dsaEncoding: 'ieee-p1363' },
+      signature
+    );
+  }
+  throw new JwtError(`Unsupported algorithm ${alg}`);
+}
@@ -0,0 +1,262 @@
+import fs from 'fs';
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+import { isMap, isScalar, LineCounter, parseDocument, type Document } from 'yaml';
+
+export interface ConfigIssue {
+  file: string;
+  line?: number;
+  column?: number;
+  path: string;
+  message: string;
+}
+
+export interface HandlersFileReport<T> {
+  file: string;
+  value: T | null;
+  issues: ConfigIssue[];
+  locate: (segments: Array<string | number>) => { line: number; column: number } | undefined;
+}
+
+type PathSegment = string | number;
+
+export class HandlersValidationError extends Error {
+  issues: ConfigIssue[];
+
+  constructor(apiId: string, issues: ConfigIssue[]) {
+    super(`Invalid handlers for ${apiId} (${issues.length} issue(s))`);
+    this.name = 'HandlersValidationError';
+    this.issues = issues;
+  }
+}
+
+export function createHandlersFileLoader(schemaPath: string, knownActions: string[]) {
+  let validate: ValidateFunction | null = null;
+  const actions = new Set(knownActions);
+
+  return <T>(filePath: string): HandlersFileReport<T> => {
+    if (!validate) {
+      const ajv = new Ajv({ allErrors: true, strict: false, verbose: true });
+      validate = ajv.compile(JSON.parse(fs.readFileSync(schemaPath, 'utf8')) as object);
+    }
+    const lineCounter = new LineCounter();
+    const document = parseDocument(fs.readFileSync(filePath, 'utf8'), { lineCounter });
+    const locate = (segments: PathSegment[], key?: string) =>
+      locateNode(document, lineCounter, segments, key);
+
+    const syntaxIssues = document.errors.map(error => {
+      const position = error.linePos?.[0];
+      return {
+        file: filePath,
+        line: position?.line,
+        column: position?.col,
+        path: '',
+        message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '')
+      };
+    });
+    if (syntaxIssues.length > 0) {
+      return { file: filePath, value: null, issues: syntaxIssues, locate };
+    }
+
+    const value = document.toJS() as unknown;
+    const issues: ConfigIssue[] = [];
+    if (!validate(value)) {
+      issues.push(...describeSchemaErrors(validate.errors ?? [], filePath, locate));
+    }
+    issues.push(...checkWorkflowActions(value, actions, filePath, locate));
+    return { file: filePath, value: value as T, issues, locate };
+  };
+}
+
+export function findDuplicateRoutes(
+  reports: Array<HandlersFileReport<{ routes?: Array<{ method?: unknown; path?: unknown }> }>>
+): ConfigIssue[] {
+  const seen = new Map<string, string>();
+  const issues: ConfigIssue[] = [];
+  reports.forEach(report => {
+    (report.value?.routes ?? []).forEach((route, index) => {
+      if (typeof route?.method !== 'string' || typeof route.path !== 'string') {
+        return;
+      }
+      const key = `${route.method.toUpperCase()} ${route.path}`;
+      const position = report.locate(['routes', index]);
+      const here = `${report.file}${position ? `:${position.line}` : ''}`;
+      const previous = seen.get(key);
+      if (previous) {
+        issues.push({
+          file: report.file,
+          line: position?.line,
+          column: position?.column,
+          path: `routes[${index}]`,
+          message: `duplicate route ${key} (already declared at ${previous})`
+        });
+        return;
+      }
+      seen.set(key, here);
+    });
+  });
+  return issues;
+}
+
+export function formatIssue(issue: ConfigIssue): string {
+  const position = issue.line ? `:${issue.line}${issue.column ? `:${issue.column}` : ''}` : '';
+  return `${issue.file}${position} ${issue.path ? `${issue.path}: ` : ''}${issue.message}`;
+}
+
+function describeSchemaErrors(
+  errors: ErrorObject[],
+  file: string,
+  locate: (segments: PathSegment[], key?: string) => { line: number; column: number } | undefined
+): ConfigIssue[] {
+  const hasDeeperError = (error: ErrorObject) =>
+    errors.some(other => other.instancePath.startsWith(`${error.instancePath}/`));
+  const specific = errors.filter(error => {
+    if (['oneOf', 'anyOf', 'if'].includes(error.keyword)) {
+      return !errors.some(other => other !== error && other.instancePath.startsWith(error.instancePath));
+    }
+    const inBranch = /\/(oneOf|anyOf)\/\d+\//.test(error.schemaPath);
+    return !(inBranch && error.keyword === 'type' && hasDeeperError(error));
+  });
+  const seen = new Set<string>();
+  return specific
+    .map(error => {
+      const segments = toSegments(error.instancePath);
+      const property =
+        error.keyword === 'additionalProperties'
+          ? String((error.params as { additionalProperty?: string }).additionalProperty)
+          : undefined;
+      const position = locate(segments, property);
+      const pathLabel = formatPath(property ? [...segments, property] : segments);
+      return {
+        file,
+        line: position?.line,
+        column: position?.column,
+        path: pathLabel,
+        message: property
+          ? describeUnknownProperty(property, error.parentSchema)
+          : error.message ?? error.keyword
+      };
+    })
+    .filter(issue => {
+      const key = `${issue.path}|${issue.message}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+}
+
+function describeUnknownProperty(property: string, parentSchema: unknown): string {
+  const known = Object.keys(asRecord(asRecord(parentSchema).properties));
+  const suggestion = known
+    .map(name => ({ name, distance: editDistance(property.toLowerCase(), name.toLowerCase()) }))
+    .filter(item => item.distance <= 2)
+    .sort((a, b) => a.distance - b.distance)[0];
+  return suggestion
+    ? `unknown property "${property}" (did you mean "${suggestion.name}"?)`
+    : `unknown property "${property}"`;
+}
+
+function checkWorkflowActions(
+  value: unknown,
+  actions: Set<string>,
+  file: string,
+  locate: (segments: PathSegment[]) => { line: number; column: number } | undefined
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const visit = (steps: unknown, segments: PathSegment[]) => {
+    if (!Array.isArray(steps)) {
+      return;
+    }
+    steps.forEach((step, index) => {
+      const stepSegments = [...segments, index];
+      const record = asRecord(step);
+      if (typeof record.action === 'string' && !actions.has(record.action)) {
+        const position = locate([...stepSegments, 'action']);
+        issues.push({
+          file,
+          line: position?.line,
+          column: position?.column,
+          path: formatPath([...stepSegments, 'action']),
+          message: `unknown workflow action "${record.action}"`
+        });
+      }
+      visit(record.steps, [...stepSegments, 'steps']);
+    });
+  };
+  const routes = asRecord(value).routes;
+  if (Array.isArray(routes)) {
+    routes.forEach((route, index) => {
+      visit(asRecord(asRecord(route).workflow).steps, ['routes', index, 'workflow', 'steps']);
+      visit(asRecord(asRecord(asRecord(route).stream).workflow).steps, [
+        'routes',
+        index,
+        'stream',
+        'workflow',
+        'steps'
+      ]);
+    });
+  }
+  Object.entries(asRecord(asRecord(value).resolvers)).forEach(([field, resolver]) => {
+    visit(asRecord(asRecord(resolver).workflow).steps, ['resolvers', field, 'workflow', 'steps']);
+  });
+  return issues;
+}
+
+function locateNode(
+  document: Document,
+  lineCounter: LineCounter,
+  segments: PathSegment[],
+  key?: string
+): { line: number; column: number } | undefined {
+  for (let depth = segments.length; depth >= 0; depth -= 1) {
+    const current = segments.slice(0, depth);
+    const node = current.length > 0 ? document.getIn(current, true) : document.contents;
+    let range = (node as { range?: [number, number, number] } | null | undefined)?.range;
+    if (key && depth === segments.length && isMap(node)) {
+      const pair = node.items.find(item => isScalar(item.key) && item.key.value === key);
+      range = (pair?.key as { range?: [number, number, number] } | undefined)?.range ?? range;
+    }
+    if (range) {
+      const position = lineCounter.linePos(range[0]);
+      return { line: position.line, column: position.col };
+    }
+  }
+  return undefined;
+}
+
+function toSegments(instancePath: string): PathSegment[] {
+  return instancePath
+    .split('/')
+    .slice(1)
+    .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .map(part => (/^\d+$/.test(part) ? Number(part) : part));
+}
+
+function formatPath(segments: PathSegment[]): string {
+  return segments
+    .map((segment, index) =>
+      typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`
+    )
+    .join('');
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_value, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
@@ -0,0 +1,186 @@
+import type { Request, Response } from 'express';
+
+export interface FaultProfile {
+  errorRate?: number;
+  error?: {
+    status?: number;
+    headers?: Record<string, string>;
+    body?: unknown;
+  };
+  latency?: FaultLatency;
+  resetRate?: number;
+  truncateRate?: number;
+  slowStream?: {
+    chunkBytes?: number;
+    intervalMs?: number;
+  };
+}
+
+export interface FaultLatency {
+  distribution?: 'fixed' | 'uniform' | 'normal';
+  ms?: number;
+  jitterMs?: number;
+  minMs?: number;
+  maxMs?: number;
+  meanMs?: number;
+  stdDevMs?: number;
+}
+
+export type FaultReference = string | FaultProfile | null;
+
+const runtimeFaults = new Map<string, Map<string, FaultReference>>();
+const API_SCOPE = '*';
+
+export function setRuntimeFault(apiId: string, routeKey: string | undefined, reference: FaultReference): void {
+  const scopes = runtimeFaults.get(apiId) ?? new Map<string, FaultReference>();
+  scopes.set(routeKey ?? API_SCOPE, reference);
+  runtimeFaults.set(apiId, scopes);
+}
+
+export function clearRuntimeFaults(apiId: string): void {
+  runtimeFaults.delete(apiId);
+}
+
+export function listRuntimeFaults(apiId: string): Record<string, FaultReference> {
+  return Object.fromEntries(runtimeFaults.get(apiId)?.entries() ?? []);
+}
+
+export function faultRouteKey(method: string, pathTemplate: string): string {
+  return `${method.toUpperCase()} ${pathTemplate}`;
+}
+
+/**
+ * Resolves the profile for a request: runtime route override, configured route
+ * profile, runtime API override, then configured API profile.
+ */
+export function resolveFaultProfile(
+  apiId: string,
+  routeKey: string | undefined,
+  configured: { api?: FaultReference; route?: FaultReference },
+  profiles: Record<string, FaultProfile>
+): FaultProfile | null {
+  const runtime = runtimeFaults.get(apiId) ?? new Map<string, FaultReference>();
+  let reference: FaultReference | undefined;
+  if (routeKey && runtime.has(routeKey)) {
+    reference = runtime.get(routeKey);
+  } else if (configured.route !== undefined) {
+    reference = configured.route;
+  } else if (runtime.has(API_SCOPE)) {
+    reference = runtime.get(API_SCOPE);
+  } else {
+    reference = configured.api;
+  }
+  if (reference === null || reference === undefined) {
+    return null;
+  }
+  if (typeof reference === 'string') {
+    const named = profiles[reference];
+    if (!named) {
+      throw new Error(`Unknown fault profile "${reference}"`);
+    }
+    return named;
+  }
+  return reference;
+}
+
+/**
+ * Applies the profile to the request. Returns true when the fault already
+ * answered (or dropped) the request and dispatch must stop.
+ */
+export async function injectFaults(profile: FaultProfile, req: Request, res: Response): Promise<boolean> {
+  const latencyMs = sampleLatency(profile.latency);
+  if (latencyMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+  }
+
+  if (chance(profile.resetRate)) {
+    req.socket.destroy();
+    return true;
+  }
+
+  if (chance(profile.errorRate)) {
+    const error = profile.error ?? {};
+    Object.entries(error.headers ?? {}).forEach(([name, value]) => res.setHeader(name, value));
+    res.setHeader('x-virtual-fault', 'error');
+    res.status(error.status ?? 500).json(error.body ?? { message: 'Injected fault' });
+    return true;
+  }
+
+  const truncate = chance(profile.truncateRate);
+  if (truncate || profile.slowStream) {
+    interceptBody(res, truncate, profile.slowStream);
+  }
+  return false;
+}
+
+function interceptBody(
+  res: Response,
+  truncate: boolean,
+  slowStream: FaultProfile['slowStream']
+): void {
+  const originalEnd = res.end.bind(res) as (...args: unknown[]) => Response;
+  // Tells the compression middleware to pass the chunks through as they come.
+  res.locals.bodyFault = true;
+  res.end = ((chunk?: unknown, encoding?: unknown, callback?: unknown) => {
+    if (chunk === undefined || chunk === null || typeof chunk === 'function') {
+      return originalEnd(chunk, encoding, callback);
+    }
+    const buffer = Buffer.isBuffer(chunk)
+      ? chunk
+      : Buffer.from(String(chunk), typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8');
+    const payload = truncate ? buffer.subarray(0, Math.floor(buffer.length / 2)) : buffer;
+    const chunkBytes = Math.max(1, slowStream?.chunkBytes ?? (slowStream ? 64 : payload.length || 1));
+    const intervalMs = slowStream?.intervalMs ?? 0;
+
+    const writeFrom = (offset: number) => {
+      if (res.destroyed) {
+        return;
+      }
+      if (offset >= payload.length) {
+        if (truncate) {
+          res.socket?.destroy();
+          return;
+        }
+        originalEnd();
+        return;
+      }
+      res.write(payload.subarray(offset, offset + chunkBytes));
+      setTimeout(() => writeFrom(offset + chunkBytes), intervalMs);
+    };
+    writeFrom(0);
+    return res;
+  }) as Response['end'];
+}
+
+function sampleLatency(latency: FaultLatency | undefined): number {
+  if (!latency) {
+    return 0;
+  }
+  const distribution = latency.distribution ?? (latency.minMs !== undefined || latency.maxMs !== undefined ? 'uniform' : 'fixed');
+  let value: number;
+  switch (distribution) {
+    case 'uniform': {
+      const min = latency.minMs ?? 0;
+      const max = Math.max(min, latency.maxMs ?? min);
+      value = min + Math.random() * (max - min);
+      break;
+    }
+    case 'normal': {
+      const u = 1 - Math.random();
+      const v = Math.random();
+      const gaussian = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+      value = (latency.meanMs ?? latency.ms ?? 0) + gaussian * (latency.stdDevMs ?? 0);
+      break;
+    }
+    default:
+      value = latency.ms ?? 0;
+  }
+  if (latency.jitterMs) {
+    value += (Math.random() * 2 - 1) * latency.jitterMs;
+  }
+  return Math.max(0, Math.round(value));
+}
+
+function chance(rate: number | undefined): boolean {
+  return typeof rate === 'number' && rate > 0 && Math.random() < rate;
+}
@@ -0,0 +1,218 @@
+import {
+  defaultFieldResolver,
+  execute,
+  getNamedType,
+  getNullableType,
+  getOperationAST,
+  GraphQLError,
+  isAbstractType,
+  isEnumType,
+  isListType,
+  isObjectType,
+  parse,
+  validate,
+  type DocumentNode,
+  type GraphQLFieldResolver,
+  type GraphQLFormattedError,
+  type GraphQLOutputType,
+  type GraphQLResolveInfo,
+  type GraphQLSchema,
+  type GraphQLTypeResolver
+} from 'graphql';
+
+export interface GraphqlRequest {
+  query: string;
+  variables?: Record<string, unknown> | null;
+  operationName?: string | null;
+}
+
+export type GraphqlError = GraphQLFormattedError;
+
+export interface GraphqlResult {
+  data: Record<string, unknown> | null;
+  errors?: GraphqlError[];
+}
+
+export interface GraphqlResolveInfo {
+  parent: unknown;
+  args: Record<string, unknown>;
+  field: string;
+  type: string;
+  path: Array<string | number>;
+  operation: 'query' | 'mutation';
+  operationName?: string;
+  variables: Record<string, unknown>;
+}
+
+export type GraphqlFieldResolver = (info: GraphqlResolveInfo) => unknown;
+
+export interface GraphqlExecutionOptions {
+  resolvers: Record<string, GraphqlFieldResolver>;
+  mock: boolean;
+  allowMutations: boolean;
+}
+
+/** Errors that reject the whole request before execution starts. */
+export class GraphqlRequestError extends Error {
+  status: number;
+  errors: GraphqlError[];
+
+  constructor(status: number, errors: GraphqlError[]) {
+    super(errors[0]?.message ?? 'Invalid GraphQL request');
+    this.name = 'GraphqlRequestError';
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+/** Field errors raised by resolvers; graphql-js copies `extensions` into the response. */
+export class GraphqlFieldError extends Error {
+  extensions?: Record<string, unknown>;
+
+  constructor(message: string, extensions?: Record<string, unknown>) {
+    super(message);
+    this.name = 'GraphqlFieldError';
+    this.extensions = extensions;
+  }
+}
+
+/**
+ * Parses, validates and runs a request with graphql-js. Configured resolvers
+ * win; otherwise the default resolver reads the parent value and, with `mock`,
+ * fields that are still undefined get placeholder data.
+ */
+export async function executeGraphql(
+  schema: GraphQLSchema,
+  request: GraphqlRequest,
+  options: GraphqlExecutionOptions
+): Promise<GraphqlResult> {
+  let document: DocumentNode;
+  try {
+    document = parse(request.query);
+  } catch (error) {
+    if (error instanceof GraphQLError) {
+      throw new GraphqlRequestError(400, [error.toJSON()]);
+    }
+    throw error;
+  }
+  const validationErrors = validate(schema, document);
+  if (validationErrors.length > 0) {
+    throw new GraphqlRequestError(400, validationErrors.map(error => error.toJSON()));
+  }
+
+  const operation = getOperationAST(document, request.operationName);
+  if (!operation) {
+    throw new GraphqlRequestError(400, [
+      {
+        message: request.operationName
+          ? `Unknown operation named "${request.operationName}".`
+          : 'Must provide operation name if query contains multiple operations.'
+      }
+    ]);
+  }
+  if (operation.operation === 'subscription') {
+    throw new GraphqlRequestError(400, [{ message: 'Subscriptions are not supported' }]);
+  }
+  if (operation.operation === 'mutation' && !options.allowMutations) {
+    throw new GraphqlRequestError(405, [{ message: 'Mutations can only be sent with POST' }]);
+  }
+
+  const result = await execute({
+    schema,
+    document,
+    operationName: request.operationName,
+    variableValues: request.variables,
+    fieldResolver: createFieldResolver(options),
+    typeResolver: resolveAbstractType
+  });
+  const errors = result.errors?.map(error => error.toJSON());
+  if (result.data === undefined) {
+    // Variable coercion failed, so nothing ran.
+    throw new GraphqlRequestError(400, errors ?? []);
+  }
+  const data = (result.data ?? null) as Record<string, unknown> | null;
+  return errors && errors.length > 0 ? { data, errors } : { data };
+}
+
+function createFieldResolver(options: GraphqlExecutionOptions): GraphQLFieldResolver<unknown, unknown> {
+  return async (source, args, contextValue, info) => {
+    const resolver = options.resolvers[`${info.parentType.name}.${info.fieldName}`];
+    if (resolver) {
+      return resolver({
+        parent: source,
+        args,
+        field: info.fieldName,
+        type: info.parentType.name,
+        path: pathToArray(info),
+        operation: info.operation.operation as 'query' | 'mutation',
+        operationName: info.operation.name?.value,
+        variables: info.variableValues
+      });
+    }
+    const value = await defaultFieldResolver(source, args, contextValue, info);
+    if (value === undefined && options.mock) {
+      return mockValue(info.schema, info.returnType, info.fieldName, info.parentType.name, pathToArray(info));
+    }
+    return value;
+  };
+}
+
+/** Uses `__typename` when present, else the first possible type whose fields cover the value. */
+const resolveAbstractType: GraphQLTypeResolver<unknown, unknown> = (value, _context, info, abstractType) => {
+  const record = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  if (typeof record.__typename === 'string') {
+    return record.__typename;
+  }
+  const candidates = info.schema.getPossibleTypes(abstractType);
+  const keys = Object.keys(record);
+  const match = candidates.find(
+    candidate => keys.length > 0 && keys.every(key => key in candidate.getFields())
+  );
+  return (match ?? candidates[0])?.name;
+};
+
+function pathToArray(info: GraphQLResolveInfo): Array<string | number> {
+  const path: Array<string | number> = [];
+  for (let current: GraphQLResolveInfo['path'] | undefined = info.path; current; current = current.prev) {
+    path.unshift(current.key);
+  }
+  return path;
+}
+
+/** Deterministic placeholder data for fields nobody resolved. */
+function mockValue(
+  schema: GraphQLSchema,
+  type: GraphQLOutputType,
+  fieldName: string,
+  parentType: string,
+  path: Array<string | number>
+): unknown {
+  const nullable = getNullableType(type);
+  if (isListType(nullable)) {
+    return [0, 1].map(index => mockValue(schema, nullable.ofType, fieldName, parentType, [...path, index]));
+  }
+  const named = getNamedType(nullable);
+  const ordinal = (path.filter((item): item is number => typeof item === 'number').pop() ?? 0) + 1;
+  if (isEnumType(named)) {
+    return named.getValues()[0]?.value ?? null;
+  }
+  if (isObjectType(named)) {
+    return {};
+  }
+  if (isAbstractType(named)) {
+    const concrete = schema.getPossibleTypes(named)[0];
+    return concrete ? { __typename: concrete.name } : null;
+  }
+  switch (named.name) {
+    case 'Int':
+      return ordinal;
+    case 'Float':
+      return ordinal + 0.5;
+    case 'Boolean':
+      return true;
+    case 'ID':
+      return `${parentType.toLowerCase()}-${ordinal}`;
+    default:
+      return `${fieldName} ${ordinal}`;
+  }
+}
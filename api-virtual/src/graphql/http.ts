@@ -0,0 +1,126 @@
+import { GraphqlRequestError, type GraphqlRequest } from './execute';
+
+/** OpenAPI paths for a GraphQL endpoint, so catalog, coverage and docs see it. */
+export function buildGraphqlPaths(endpoint: string): Record<string, unknown> {
+  const resultResponse = {
+    description: 'GraphQL result',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: { data: { type: 'object', nullable: true }, errors: { type: 'array', items: { type: 'object' } } }
+        }
+      }
+    }
+  };
+  return {
+    [endpoint]: {
+      get: {
+        operationId: 'graphqlQuery',
+        summary: 'Run a GraphQL query (GraphiQL when opened in a browser)',
+        parameters: [
+          { name: 'query', in: 'query', schema: { type: 'string' } },
+          { name: 'variables', in: 'query', schema: { type: 'string' } },
+          { name: 'operationName', in: 'query', schema: { type: 'string' } }
+        ],
+        responses: { '200': resultResponse, '400': resultResponse }
+      },
+      post: {
+        operationId: 'graphqlExecute',
+        summary: 'Run a GraphQL query or mutation',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['query'],
+                properties: {
+                  query: { type: 'string' },
+                  variables: { type: 'object', nullable: true },
+                  operationName: { type: 'string', nullable: true }
+                }
+              }
+            },
+            'application/graphql': { schema: { type: 'string' } }
+          }
+        },
+        responses: { '200': resultResponse, '400': resultResponse }
+      }
+    }
+  };
+}
+
+export function buildGraphqlOpenApi(name: string, basePath: string, endpoint: string): Record<string, unknown> {
+  return {
+    openapi: '3.0.3',
+    info: { title: name, version: '1.0.0', description: 'Virtual GraphQL API.' },
+    servers: [{ url: basePath }],
+    paths: buildGraphqlPaths(endpoint)
+  };
+}
+
+/** Reads `query`/`variables`/`operationName` from a GET query string or a POST body. */
+export function readGraphqlRequest(
+  method: string,
+  query: Record<string, unknown>,
+  body: unknown,
+  rawBody: string | undefined,
+  contentType: string | undefined
+): GraphqlRequest {
+  const source =
+    method === 'GET'
+      ? query
+      : (contentType ?? '').toLowerCase().startsWith('application/graphql')
+        ? { query: rawBody ?? body }
+        : body && typeof body === 'object' && !Buffer.isBuffer(body)
+          ? (body as Record<string, unknown>)
+          : {};
+  if (typeof source.query !== 'string' || !source.query.trim()) {
+    throw new GraphqlRequestError(400, [{ message: 'Must provide query string.' }]);
+  }
+  let variables = source.variables;
+  if (typeof variables === 'string' && variables.trim()) {
+    try {
+      variables = JSON.parse(variables);
+    } catch (_error) {
+      throw new GraphqlRequestError(400, [{ message: 'Variables are invalid JSON.' }]);
+    }
+  }
+  if (variables !== undefined && variables !== null && variables !== '' && (typeof variables !== 'object' || Array.isArray(variables))) {
+    throw new GraphqlRequestError(400, [{ message: 'Variables must be an object.' }]);
+  }
+  return {
+    query: source.query,
+    variables: variables && typeof variables === 'object' ? (variables as Record<string, unknown>) : undefined,
+    operationName: typeof source.operationName === 'string' && source.operationName ? source.operationName : undefined
+  };
+}
+
+export function renderGraphiql(title: string, endpoint: string): string {
+  const escape = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>${escape(title)} · GraphiQL</title>
+    <link rel="icon" href="/assets/logo.svg" />
+    <link rel="stylesheet" href="/assets/graphiql/graphiql.min.css" />
+    <style>body { margin: 0; height: 100vh; } #graphiql { height: 100vh; }</style>
+  </head>
+  <body>
+    <div id="graphiql">Loading GraphiQL…</div>
+    <script src="/assets/graphiql/react.production.min.js"></script>
+    <script src="/assets/graphiql/react-dom.production.min.js"></script>
+    <script src="/assets/graphiql/graphiql.min.js"></script>
+    <script>
+      const fetcher = GraphiQL.createFetcher({ url: ${JSON.stringify(endpoint).replace(/</g, '\\u003c')} });
+      ReactDOM.createRoot(document.getElementById('graphiql')).render(
+        React.createElement(GraphiQL, { fetcher })
+      );
+    </script>
+  </body>
+</html>
+`;
+}
@@ -1,15 +1,34 @@
 import type { Request, Response } from 'express';
+import type { GraphqlResolveInfo } from '../graphql/execute';
+
+export interface UploadedFile {
+  field: string;
+  filename?: string;
+  contentType: string;
+  size: number;
+  content: string;
+}
 
 export interface HandlerContext {
   params: Request['params'];
   query: Request['query'];
   body: Request['body'];
+  rawBody?: string;
+  files?: UploadedFile[];
   resources: Record<string, unknown>;
   meta: {
     now: string;
     randomId: string;
     requestId: string;
+    scenario?: string;
+    session?: string;
+  };
+  auth?: {
+    schemes: string[];
+    claims: Record<string, unknown>;
+    token?: string;
   };
+  graphql?: GraphqlResolveInfo;
   req: Request;
   res: Response;
 }
@@ -18,6 +37,9 @@ export interface HandlerResult {
   status?: number;
   headers?: Record<string, string>;
   body?: unknown;
+  file?: string;
+  filename?: string;
+  encoding?: 'base64';
 }
 
 export type HandlerFn = (
@@ -0,0 +1,246 @@
+import type { IncomingMessage } from 'http';
+import express, { Request, Response } from 'express';
+import type { UploadedFile } from '../handlers/types';
+import { parseCsv } from './csv';
+import { parseXml, XmlParseError } from './xml';
+
+export type BodyFormat = 'json' | 'form' | 'multipart' | 'xml' | 'csv' | 'text' | 'binary';
+
+export interface ParsedRequestBody {
+  body: unknown;
+  rawBody?: string;
+  files: UploadedFile[];
+}
+
+export class BodyParseError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'BodyParseError';
+    this.status = status;
+  }
+}
+
+type RawBodyRequest = IncomingMessage & { rawBody?: Buffer };
+
+/**
+ * `verify` hook for the global JSON parser so JSON routes also get the exact
+ * bytes the client sent (for signature checks and `rawBody`).
+ */
+export function captureRawBody(req: IncomingMessage, _res: unknown, buffer: Buffer): void {
+  (req as RawBodyRequest).rawBody = buffer;
+}
+
+export function resolveBodyFormat(mediaType: string): BodyFormat {
+  const normalized = mediaType.split(';')[0].trim().toLowerCase();
+  if (normalized === 'application/json' || normalized.endsWith('+json')) {
+    return 'json';
+  }
+  if (normalized === 'application/x-www-form-urlencoded') {
+    return 'form';
+  }
+  if (normalized === 'multipart/form-data') {
+    return 'multipart';
+  }
+  if (normalized === 'application/xml' || normalized === 'text/xml' || normalized.endsWith('+xml')) {
+    return 'xml';
+  }
+  if (normalized === 'text/csv') {
+    return 'csv';
+  }
+  return normalized.startsWith('text/') || normalized === 'application/graphql' ? 'text' : 'binary';
+}
+
+/**
+ * Reads and parses the request body for one route according to its
+ * Content-Type. With `strict`, types not declared in the operation's
+ * requestBody are rejected with 415.
+ */
+export function createBodyReader(declaredTypes: string[], options: { limit: string; strict: boolean }) {
+  const readRaw = express.raw({ type: () => true, limit: options.limit });
+
+  return async (req: Request, res: Response): Promise<ParsedRequestBody> => {
+    if (!hasBody(req)) {
+      return { body: req.body, files: [] };
+    }
+    const contentType = req.headers['content-type'] ?? 'application/octet-stream';
+    const mediaType = contentType.split(';')[0].trim().toLowerCase();
+    const declared = declaredTypes.find(candidate => matchesMediaType(candidate, mediaType));
+    if (!declared && declaredTypes.length > 0 && options.strict) {
+      throw new BodyParseError(
+        415,
+        `Unsupported content type ${mediaType} (expected ${declaredTypes.join(', ')})`
+      );
+    }
+    const format = resolveBodyFormat(mediaType);
+
+    let raw = (req as RawBodyRequest).rawBody;
+    if (!raw) {
+      try {
+        await new Promise<void>((resolve, reject) =>
+          readRaw(req, res, error => (error ? reject(error) : resolve()))
+        );
+      } catch (error) {
+        const status = (error as { status?: number }).status ?? 400;
+        throw new BodyParseError(status, error instanceof Error ? error.message : String(error));
+      }
+      raw = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      (req as RawBodyRequest).rawBody = raw;
+    }
+    const text = raw.toString(readCharset(contentType));
+
+    const parsed = parseBody(format, raw, text, contentType, req);
+    req.body = parsed.body;
+    return parsed;
+  };
+}
+
+function parseBody(
+  format: BodyFormat,
+  raw: Buffer,
+  text: string,
+  contentType: string,
+  req: Request
+): ParsedRequestBody {
+  switch (format) {
+    case 'json':
+      if (!Buffer.isBuffer(req.body)) {
+        return { body: req.body, rawBody: text, files: [] };
+      }
+      try {
+        return { body: text.trim() ? JSON.parse(text) : {}, rawBody: text, files: [] };
+      } catch (error) {
+        throw new BodyParseError(400, `Invalid JSON body: ${error instanceof Error ? error.message : error}`);
+      }
+    case 'form': {
+      const fields: Record<string, string | string[]> = {};
+      new URLSearchParams(text).forEach((value, key) => appendField(fields, key, value));
+      return { body: fields, rawBody: text, files: [] };
+    }
+    case 'multipart': {
+      const boundary = readHeaderParam(contentType, 'boundary');
+      if (!boundary) {
+        throw new BodyParseError(400, 'Multipart body without boundary');
+      }
+      const { fields, files } = parseMultipart(raw, boundary);
+      return { body: fields, files };
+    }
+    case 'xml':
+      try {
+        return { body: parseXml(text), rawBody: text, files: [] };
+      } catch (error) {
+        if (error instanceof XmlParseError) {
+          throw new BodyParseError(400, `Invalid XML body: ${error.message}`);
+        }
+        throw error;
+      }
+    case 'csv':
+      return { body: parseCsv(text), rawBody: text, files: [] };
+    case 'text':
+      return { body: text, rawBody: text, files: [] };
+    default:
+      return {
+        body: {},
+        files: [
+          {
+            field: 'body',
+            filename: readHeaderParam(String(req.headers['content-disposition'] ?? ''), 'filename'),
+            contentType: contentType.split(';')[0].trim(),
+            size: raw.length,
+            content: raw.toString('base64')
+          }
+        ]
+      };
+  }
+}
+
+function parseMultipart(
+  buffer: Buffer,
+  boundary: string
+): { fields: Record<string, string | string[]>; files: UploadedFile[] } {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const fields: Record<string, string | string[]> = {};
+  const files: UploadedFile[] = [];
+  let start = buffer.indexOf(delimiter);
+  if (start < 0) {
+    throw new BodyParseError(400, 'Multipart boundary not found in body');
+  }
+
+  for (;;) {
+    start += delimiter.length;
+    if (buffer.subarray(start, start + 2).toString() === '--') {
+      break;
+    }
+    if (buffer[start] === 13 && buffer[start + 1] === 10) {
+      start += 2;
+    }
+    const next = buffer.indexOf(delimiter, start);
+    if (next < 0) {
+      throw new BodyParseError(400, 'Unterminated multipart body');
+    }
+    let part = buffer.subarray(start, next);
+    if (part[part.length - 2] === 13 && part[part.length - 1] === 10) {
+      part = part.subarray(0, part.length - 2);
+    }
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd < 0) {
+      throw new BodyParseError(400, 'Multipart part without headers');
+    }
+    const headers: Record<string, string> = {};
+    part
+      .subarray(0, headerEnd)
+      .toString('utf8')
+      .split('\r\n')
+      .forEach(line => {
+        const separator = line.indexOf(':');
+        if (separator > 0) {
+          headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+        }
+      });
+    const content = part.subarray(headerEnd + 4);
+    const disposition = headers['content-disposition'] ?? '';
+    const name = readHeaderParam(disposition, 'name');
+    const filename = readHeaderParam(disposition, 'filename');
+    if (name && filename !== undefined) {
+      files.push({
+        field: name,
+        filename,
+        contentType: headers['content-type'] ?? 'application/octet-stream',
+        size: content.length,
+        content: content.toString('base64')
+      });
+    } else if (name) {
+      appendField(fields, name, content.toString('utf8'));
+    }
+    start = next;
+  }
+  return { fields, files };
+}
+
+function appendField(fields: Record<string, string | string[]>, name: string, value: string): void {
+  const existing = fields[name];
+  fields[name] = existing === undefined ? value : Array.isArray(existing) ? [...existing, value] : [existing, value];
+}
+
+function readHeaderParam(header: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|;)\\s*${name}=(?:"([^"]*)"|([^;]*))`, 'i').exec(header);
+  return match ? (match[1] ?? match[2].trim()) : undefined;
+}
+
+function readCharset(contentType: string): BufferEncoding {
+  const charset = readHeaderParam(contentType, 'charset')?.toLowerCase();
+  return charset === 'iso-8859-1' || charset === 'latin1' || charset === 'us-ascii' ? 'latin1' : 'utf8';
+}
+
+function matchesMediaType(declared: string, mediaType: string): boolean {
+  const normalized = declared.split(';')[0].trim().toLowerCase();
+  if (normalized === '*/*' || normalized === mediaType) {
+    return true;
+  }
+  return normalized.endsWith('/*') && mediaType.startsWith(normalized.slice(0, -1));
+}
+
+function hasBody(req: Request): boolean {
+  return req.headers['transfer-encoding'] !== undefined || Number(req.headers['content-length'] ?? 0) > 0;
+}
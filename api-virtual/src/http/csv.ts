@@ -0,0 +1,131 @@
+export interface CsvParseOptions {
+  delimiter?: string;
+  header?: boolean;
+}
+
+/**
+ * Parses RFC 4180 CSV. With a header row (default) each record becomes an
+ * object keyed by column name. The delimiter is guessed from the first line
+ * (comma, semicolon or tab) unless given.
+ */
+export function parseCsv(
+  text: string,
+  options: CsvParseOptions = {}
+): Array<Record<string, string>> | string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = options.delimiter ?? guessDelimiter(source);
+  const rows = readRows(source, delimiter);
+  if (options.header === false) {
+    return rows;
+  }
+  const [columns, ...records] = rows;
+  if (!columns) {
+    return [];
+  }
+  return records.map(record => {
+    const item: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      item[column] = record[index] ?? '';
+    });
+    return item;
+  });
+}
+
+/**
+ * Serializes rows as CSV with CRLF line endings. Arrays of objects get a
+ * header row from the union of their keys; nested values are written as JSON.
+ */
+export function stringifyCsv(value: unknown, delimiter = ','): string {
+  const items = Array.isArray(value) ? value : value === null || value === undefined ? [] : [value];
+  let rows: unknown[][];
+  if (items.every(item => Array.isArray(item))) {
+    rows = items as unknown[][];
+  } else {
+    const columns: string[] = [];
+    items.forEach(item => {
+      Object.keys(asRecord(item)).forEach(key => {
+        if (!columns.includes(key)) {
+          columns.push(key);
+        }
+      });
+    });
+    rows = [columns, ...items.map(item => columns.map(column => asRecord(item)[column]))];
+  }
+  return rows.map(row => row.map(cell => formatCell(cell, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+function formatCell(cell: unknown, delimiter: string): string {
+  const text =
+    cell === null || cell === undefined
+      ? ''
+      : typeof cell === 'object'
+        ? JSON.stringify(cell)
+        : String(cell);
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function readRows(source: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      index += 1;
+      continue;
+    }
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (source.startsWith(delimiter, index)) {
+      row.push(field);
+      field = '';
+      index += delimiter.length;
+      continue;
+    } else if (char === '\n' || char === '\r') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      index += char === '\r' && source[index + 1] === '\n' ? 2 : 1;
+      continue;
+    } else {
+      field += char;
+    }
+    index += 1;
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(item => item.length > 1 || item[0] !== '');
+}
+
+function guessDelimiter(source: string): string {
+  const firstLine = source.slice(0, source.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map(candidate => ({
+    candidate,
+    count: firstLine.split(candidate).length - 1
+  }));
+  return counts.sort((a, b) => b.count - a.count)[0].count > 0
+    ? counts[0].candidate
+    : ',';
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
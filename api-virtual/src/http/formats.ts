@@ -0,0 +1,69 @@
+import { resolveBodyFormat } from './body';
+import { stringifyCsv } from './csv';
+import { buildXml } from './xml';
+
+/**
+ * Picks the declared media type that best matches an Accept header. Falls
+ * back to the first declared type when nothing matches or Accept is absent.
+ */
+export function negotiateMediaType(accept: string | undefined, available: string[]): string | undefined {
+  if (available.length === 0) {
+    return undefined;
+  }
+  if (!accept) {
+    return available[0];
+  }
+  const ranges = accept
+    .split(',')
+    .map((part, index) => {
+      const [range, ...params] = part.trim().split(';');
+      const quality = params.map(param => param.trim()).find(param => param.startsWith('q='));
+      return { range: range.trim().toLowerCase(), quality: quality ? Number(quality.slice(2)) : 1, index };
+    })
+    .filter(item => item.range && item.quality > 0)
+    .sort((a, b) => b.quality - a.quality || specificity(b.range) - specificity(a.range) || a.index - b.index);
+
+  for (const { range } of ranges) {
+    const match = available.find(candidate => matchesRange(range, candidate));
+    if (match) {
+      return match;
+    }
+  }
+  return available[0];
+}
+
+/**
+ * Serializes a response body for a media type: object trees become XML,
+ * row arrays become CSV and everything else falls back to JSON or text.
+ */
+export function renderBody(body: unknown, mediaType: string): string | Buffer {
+  if (Buffer.isBuffer(body)) {
+    return body;
+  }
+  if (typeof body === 'string') {
+    return body;
+  }
+  switch (resolveBodyFormat(mediaType)) {
+    case 'xml':
+      return buildXml(body);
+    case 'csv':
+      return stringifyCsv(body);
+    case 'text':
+    case 'binary':
+      return typeof body === 'object' && body !== null ? JSON.stringify(body) : String(body);
+    default:
+      return JSON.stringify(body);
+  }
+}
+
+function matchesRange(range: string, mediaType: string): boolean {
+  const normalized = mediaType.split(';')[0].trim().toLowerCase();
+  if (range === '*/*' || range === normalized) {
+    return true;
+  }
+  return range.endsWith('/*') && normalized.startsWith(range.slice(0, -1));
+}
+
+function specificity(range: string): number {
+  return range === '*/*' ? 0 : range.endsWith('/*') ? 1 : 2;
+}
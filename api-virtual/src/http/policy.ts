@@ -0,0 +1,214 @@
+import zlib from 'zlib';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+
+export interface CorsConfig {
+  origins?: string[] | '*';
+  methods?: string[];
+  headers?: string[];
+  exposeHeaders?: string[];
+  credentials?: boolean;
+  maxAgeSec?: number;
+}
+
+export interface CompressionConfig {
+  encodings?: Array<'br' | 'gzip' | 'deflate'>;
+  thresholdBytes?: number;
+  level?: number;
+}
+
+const DEFAULT_METHODS = ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE'];
+const DEFAULT_ENCODINGS: Array<'br' | 'gzip' | 'deflate'> = ['br', 'gzip'];
+const COMPRESSIBLE_TYPE =
+  /^(text\/(?!event-stream)|application\/([\w.+-]+\+)?(json|xml|javascript|yaml|x-yaml)|image\/svg\+xml)/i;
+
+/**
+ * Answers preflight requests and adds CORS headers for allowed origins.
+ * `true` allows any origin with the default methods.
+ */
+export function createCorsMiddleware(config: CorsConfig | boolean | undefined): RequestHandler | null {
+  if (!config) {
+    return null;
+  }
+  const settings: CorsConfig = config === true ? { origins: '*' } : config;
+  const patterns = settings.origins === '*' || !settings.origins ? ['*'] : settings.origins;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.headers.origin;
+    if (!origin || !patterns.some(pattern => matchesOrigin(pattern, origin))) {
+      next();
+      return;
+    }
+    const allowAny = patterns.includes('*') && !settings.credentials;
+    res.setHeader('Access-Control-Allow-Origin', allowAny ? '*' : origin);
+    if (!allowAny) {
+      res.vary('Origin');
+    }
+    if (settings.credentials) {
+      res.setHeader('Access-Control-Allow-Credentials', 'true');
+    }
+    if (settings.exposeHeaders?.length) {
+      res.setHeader('Access-Control-Expose-Headers', settings.exposeHeaders.join(', '));
+    }
+
+    const requestedMethod = req.headers['access-control-request-method'];
+    if (req.method !== 'OPTIONS' || !requestedMethod) {
+      next();
+      return;
+    }
+    res.setHeader('Access-Control-Allow-Methods', (settings.methods ?? DEFAULT_METHODS).join(', '));
+    const requestedHeaders = req.headers['access-control-request-headers'];
+    const allowedHeaders = settings.headers?.join(', ') ?? requestedHeaders;
+    if (allowedHeaders) {
+      res.setHeader('Access-Control-Allow-Headers', allowedHeaders);
+      if (!settings.headers) {
+        res.vary('Access-Control-Request-Headers');
+      }
+    }
+    if (settings.maxAgeSec !== undefined) {
+      res.setHeader('Access-Control-Max-Age', String(settings.maxAgeSec));
+    }
+    res.setHeader('Content-Length', '0');
+    res.status(204).end();
+  };
+}
+
+export function createDefaultHeadersMiddleware(headers: Record<string, string> | undefined): RequestHandler | null {
+  if (!headers || Object.keys(headers).length === 0) {
+    return null;
+  }
+  return (_req: Request, res: Response, next: NextFunction) => {
+    Object.entries(headers).forEach(([key, value]) => res.setHeader(key, value));
+    next();
+  };
+}
+
+/**
+ * Buffers compressible responses (JSON, text, XML, YAML, JavaScript, SVG) and
+ * encodes them with the first configured encoding the client accepts. Other
+ * content types, including event streams, pass through untouched.
+ */
+export function createCompressionMiddleware(
+  config: CompressionConfig | boolean | undefined
+): RequestHandler | null {
+  if (!config) {
+    return null;
+  }
+  const settings: CompressionConfig = config === true ? {} : config;
+  const encodings = settings.encodings ?? DEFAULT_ENCODINGS;
+  const threshold = settings.thresholdBytes ?? 1024;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    res.vary('Accept-Encoding');
+    const encoding = negotiateEncoding(req.headers['accept-encoding'], encodings);
+    if (!encoding || req.method === 'HEAD') {
+      next();
+      return;
+    }
+
+    const originalWrite = res.write.bind(res) as (...args: unknown[]) => boolean;
+    const originalEnd = res.end.bind(res) as (...args: unknown[]) => Response;
+    const chunks: Buffer[] = [];
+    let buffering: boolean | undefined;
+    const shouldBuffer = () => {
+      if (buffering === undefined) {
+        buffering = isCompressible(res);
+      }
+      return buffering;
+    };
+
+    res.write = ((chunk: unknown, chunkEncoding?: unknown, callback?: unknown) => {
+      if (!shouldBuffer()) {
+        return originalWrite(chunk, chunkEncoding, callback);
+      }
+      chunks.push(toBuffer(chunk, chunkEncoding));
+      const done = typeof chunkEncoding === 'function' ? chunkEncoding : callback;
+      if (typeof done === 'function') {
+        process.nextTick(done as () => void);
+      }
+      return true;
+    }) as Response['write'];
+
+    res.end = ((chunk?: unknown, chunkEncoding?: unknown, callback?: unknown) => {
+      if (!shouldBuffer()) {
+        return originalEnd(chunk, chunkEncoding, callback);
+      }
+      const done = [chunk, chunkEncoding, callback].find(item => typeof item === 'function');
+      if (chunk !== undefined && chunk !== null && typeof chunk !== 'function') {
+        chunks.push(toBuffer(chunk, chunkEncoding));
+      }
+      const body = Buffer.concat(chunks);
+      if (body.length < threshold || res.headersSent) {
+        return originalEnd(body, done);
+      }
+      const compressed = compress(body, encoding, settings.level);
+      res.locals.uncompressedBody = body;
+      res.setHeader('Content-Encoding', encoding);
+      res.setHeader('Content-Length', String(compressed.length));
+      return originalEnd(compressed, done);
+    }) as Response['end'];
+
+    next();
+  };
+}
+
+function matchesOrigin(pattern: string, origin: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  if (!pattern.includes('*')) {
+    return pattern === origin;
+  }
+  const expression = pattern
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]*');
+  return new RegExp(`^${expression}$`).test(origin);
+}
+
+function negotiateEncoding(
+  header: string | undefined,
+  encodings: Array<'br' | 'gzip' | 'deflate'>
+): 'br' | 'gzip' | 'deflate' | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const accepted = new Map<string, number>();
+  header.split(',').forEach(part => {
+    const [name, ...params] = part.trim().split(';');
+    const quality = params.map(param => param.trim()).find(param => param.startsWith('q='));
+    accepted.set(name.trim().toLowerCase(), quality ? Number(quality.slice(2)) : 1);
+  });
+  return encodings.find(encoding => (accepted.get(encoding) ?? accepted.get('*') ?? 0) > 0);
+}
+
+function isCompressible(res: Response): boolean {
+  if (
+    res.statusCode === 204 ||
+    res.statusCode === 304 ||
+    res.getHeader('Content-Encoding') ||
+    res.locals.bodyFault === true
+  ) {
+    return false;
+  }
+  return COMPRESSIBLE_TYPE.test(String(res.getHeader('Content-Type') ?? ''));
+}
+
+function compress(body: Buffer, encoding: 'br' | 'gzip' | 'deflate', level?: number): Buffer {
+  if (encoding === 'br') {
+    return zlib.brotliCompressSync(body, {
+      params: level !== undefined ? { [zlib.constants.BROTLI_PARAM_QUALITY]: level } : {}
+    });
+  }
+  const options = level !== undefined ? { level } : {};
+  return encoding === 'gzip' ? zlib.gzipSync(body, options) : zlib.deflateSync(body, options);
+}
+
+function toBuffer(chunk: unknown, encoding: unknown): Buffer {
+  if (Buffer.isBuffer(chunk)) {
+    return chunk;
+  }
+  if (chunk instanceof Uint8Array) {
+    return Buffer.from(chunk);
+  }
+  return Buffer.from(String(chunk), typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8');
+}
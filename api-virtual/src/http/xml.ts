@@ -0,0 +1,237 @@
+export class XmlParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XmlParseError';
+  }
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Parses XML into a plain object tree: `{ root: { child: 'text' } }`.
+ * Attributes become `@name` keys, repeated elements become arrays and text
+ * next to attributes or children is kept under `#text`.
+ */
+export function parseXml(text: string): Record<string, unknown> {
+  let position = 0;
+
+  const fail = (message: string): never => {
+    const line = text.slice(0, position).split('\n').length;
+    throw new XmlParseError(`${message} (line ${line})`);
+  };
+
+  const skipMisc = () => {
+    for (;;) {
+      while (position < text.length && /\s/.test(text[position])) {
+        position += 1;
+      }
+      if (text.startsWith('<?', position)) {
+        position = indexAfter('?>', '<?');
+      } else if (text.startsWith('<!--', position)) {
+        position = indexAfter('-->', '<!--');
+      } else if (text.startsWith('<!DOCTYPE', position)) {
+        position = indexAfter('>', '<!DOCTYPE');
+      } else {
+        return;
+      }
+    }
+  };
+
+  const indexAfter = (terminator: string, opener: string) => {
+    const end = text.indexOf(terminator, position);
+    if (end < 0) {
+      fail(`Unterminated ${opener}`);
+    }
+    return end + terminator.length;
+  };
+
+  const readName = () => {
+    const match = /^[A-Za-z_][\w.:-]*/.exec(text.slice(position, position + 256));
+    if (!match) {
+      fail('Expected a tag or attribute name');
+    }
+    position += match![0].length;
+    return match![0];
+  };
+
+  const readElement = (): [string, unknown] => {
+    position += 1;
+    const name = readName();
+    const attributes: Record<string, unknown> = {};
+    for (;;) {
+      while (/\s/.test(text[position] ?? '')) {
+        position += 1;
+      }
+      if (text.startsWith('/>', position)) {
+        position += 2;
+        return [name, Object.keys(attributes).length > 0 ? attributes : ''];
+      }
+      if (text[position] === '>') {
+        position += 1;
+        break;
+      }
+      if (position >= text.length) {
+        fail(`Unterminated tag <${name}>`);
+      }
+      const attribute = readName();
+      while (/\s/.test(text[position] ?? '')) {
+        position += 1;
+      }
+      if (text[position] !== '=') {
+        fail(`Expected = after attribute ${attribute}`);
+      }
+      position += 1;
+      while (/\s/.test(text[position] ?? '')) {
+        position += 1;
+      }
+      const quote = text[position];
+      if (quote !== '"' && quote !== "'") {
+        fail(`Expected quoted value for attribute ${attribute}`);
+      }
+      const end = text.indexOf(quote, position + 1);
+      if (end < 0) {
+        fail(`Unterminated value for attribute ${attribute}`);
+      }
+      attributes[`@${attribute}`] = decodeEntities(text.slice(position + 1, end), fail);
+      position = end + 1;
+    }
+
+    const children: Record<string, unknown> = {};
+    let content = '';
+    let hasChildren = false;
+    for (;;) {
+      if (position >= text.length) {
+        fail(`Missing closing tag for <${name}>`);
+      }
+      if (text.startsWith('</', position)) {
+        position += 2;
+        const closing = readName();
+        if (closing !== name) {
+          fail(`Expected </${name}> but found </${closing}>`);
+        }
+        while (/\s/.test(text[position] ?? '')) {
+          position += 1;
+        }
+        if (text[position] !== '>') {
+          fail(`Unterminated closing tag </${name}>`);
+        }
+        position += 1;
+        break;
+      }
+      if (text.startsWith('<![CDATA[', position)) {
+        const end = text.indexOf(']]>', position);
+        if (end < 0) {
+          fail('Unterminated CDATA section');
+        }
+        content += text.slice(position + 9, end);
+        position = end + 3;
+      } else if (text.startsWith('<!--', position)) {
+        position = indexAfter('-->', '<!--');
+      } else if (text.startsWith('<?', position)) {
+        position = indexAfter('?>', '<?');
+      } else if (text[position] === '<') {
+        const [childName, childValue] = readElement();
+        hasChildren = true;
+        const existing = children[childName];
+        children[childName] =
+          existing === undefined
+            ? childValue
+            : Array.isArray(existing)
+              ? [...existing, childValue]
+              : [existing, childValue];
+      } else {
+        const next = text.indexOf('<', position);
+        const end = next < 0 ? text.length : next;
+        content += decodeEntities(text.slice(position, end), fail);
+        position = end;
+      }
+    }
+
+    const trimmed = hasChildren ? content.trim() : content;
+    if (!hasChildren && Object.keys(attributes).length === 0) {
+      return [name, trimmed];
+    }
+    return [name, { ...attributes, ...children, ...(trimmed ? { '#text': trimmed } : {}) }];
+  };
+
+  skipMisc();
+  if (text[position] !== '<') {
+    fail('Expected a root element');
+  }
+  const [rootName, rootValue] = readElement();
+  skipMisc();
+  if (position < text.length) {
+    fail('Unexpected content after the root element');
+  }
+  return { [rootName]: rootValue };
+}
+
+function decodeEntities(value: string, fail: (message: string) => never): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const codePoint = entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      if (!Number.isInteger(codePoint) || codePoint > 0x10ffff) {
+        return fail(`Invalid character reference ${match}`);
+      }
+      return String.fromCodePoint(codePoint);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Serializes the same tree shape `parseXml` produces. A single-key object
+ * names the root element; anything else is wrapped in `rootName`.
+ */
+export function buildXml(value: unknown, rootName = 'response'): string {
+  const keys = isPlainObject(value) ? Object.keys(value) : [];
+  const single = keys.length === 1 && !/^[@#]/.test(keys[0]) && !Array.isArray((value as Record<string, unknown>)[keys[0]]);
+  const body = single
+    ? renderElement(keys[0], (value as Record<string, unknown>)[keys[0]])
+    : Array.isArray(value)
+      ? `<${rootName}>${value.map(item => renderElement('item', item)).join('')}</${rootName}>`
+      : renderElement(rootName, value);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${body}`;
+}
+
+function renderElement(name: string, value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(item => renderElement(name, item)).join('');
+  }
+  if (value === null || value === undefined) {
+    return `<${name}/>`;
+  }
+  if (!isPlainObject(value)) {
+    return `<${name}>${escapeXml(String(value))}</${name}>`;
+  }
+  let attributes = '';
+  let children = '';
+  Object.entries(value).forEach(([key, child]) => {
+    if (key.startsWith('@')) {
+      attributes += ` ${key.slice(1)}="${escapeXml(String(child ?? ''))}"`;
+    } else if (key !== '#text') {
+      children += renderElement(key, child);
+    }
+  });
+  const text = value['#text'] !== undefined ? escapeXml(String(value['#text'])) : '';
+  return text || children ? `<${name}${attributes}>${text}${children}</${name}>` : `<${name}${attributes}/>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !Buffer.isBuffer(value);
+}
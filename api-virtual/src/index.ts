@@ -1,22 +1,118 @@
-import express, { Request, Response, Router } from 'express';
+import express, { NextFunction, Request, Response, Router } from 'express';
 import morgan from 'morgan';
 import path from 'path';
 import fs from 'fs';
-import { parse as parseYaml } from 'yaml';
+import os from 'os';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
 import swaggerUi from 'swagger-ui-express';
 import { MongoClient } from 'mongodb';
 import type { HandlerContext, HandlerFn, HandlerResult } from './handlers/types';
 import {
+  deleteVirtualStateSession,
   executeWorkflow,
+  WORKFLOW_ACTIONS,
   type WorkflowDefinition,
   WorkflowHttpError
 } from './workflow/engine';
+import {
+  findOperation,
+  listOperations,
+  listRequestMediaTypes,
+  listResponseMediaTypes,
+  matchOperation,
+  type OpenApiOperation
+} from './openapi/document';
+import { buildMockResponder, parsePreferHeader, type MockResponder } from './openapi/mock';
+import {
+  buildRequestValidator,
+  buildResponseValidator,
+  type RequestValidator,
+  type ResponseValidator
+} from './openapi/validation';
+import { clearEntries, getEntry, journalMiddleware, listEntries } from './journal/journal';
+import { VerifyInputError, verifyRequests } from './journal/verify';
+import { createUpstreamProxy, resolveUpstreamUrl, type UpstreamConfig } from './proxy/upstream';
+import {
+  clearRuntimeFaults,
+  faultRouteKey,
+  injectFaults,
+  listRuntimeFaults,
+  resolveFaultProfile,
+  setRuntimeFault,
+  type FaultProfile,
+  type FaultReference
+} from './faults/faults';
+import {
+  getActiveScenario,
+  resolveScenario,
+  setActiveScenario,
+  type ScenariosConfig
+} from './scenarios/scenarios';
+import {
+  createHandlersFileLoader,
+  findDuplicateRoutes,
+  formatIssue,
+  HandlersValidationError,
+  type ConfigIssue,
+  type HandlersFileReport
+} from './config/validation';
+import { buildCoverageReport, clearHits, recordHit } from './openapi/coverage';
+import {
+  ensureSessionSeeded,
+  forgetSession,
+  listSessions,
+  resolveSession,
+  SessionInputError
+} from './sessions/sessions';
+import { createAuthenticator, type AuthConfig, type Authenticator } from './auth/auth';
+import { buildIssuerOpenApi, createIssuerRouter, ISSUER_ROUTES, type IssuerConfig } from './auth/issuer';
+import {
+  createCompressionMiddleware,
+  createCorsMiddleware,
+  createDefaultHeadersMiddleware,
+  type CompressionConfig,
+  type CorsConfig
+} from './http/policy';
+import { BodyParseError, captureRawBody, createBodyReader, type ParsedRequestBody } from './http/body';
+import { negotiateMediaType, renderBody } from './http/formats';
+import {
+  cancelWebhook,
+  clearFinishedWebhooks,
+  getWebhook,
+  initWebhookStore,
+  listWebhooks,
+  WebhookStateError
+} from './webhooks/webhooks';
+import {
+  acceptWebSocket,
+  closeStreamConnection,
+  createUpgradeListener,
+  listStreamConnections,
+  openEventStream,
+  playStream,
+  publishStreamMessage,
+  type StreamConnection,
+  type StreamDefinition
+} from './streams/streams';
+import { assertValidSchema, buildSchema, isObjectType, type GraphQLSchema } from 'graphql';
+import {
+  executeGraphql,
+  GraphqlFieldError,
+  GraphqlRequestError,
+  type GraphqlFieldResolver
+} from './graphql/execute';
+import { buildGraphqlOpenApi, buildGraphqlPaths, readGraphqlRequest, renderGraphiql } from './graphql/http';
+import { observeRequest, recordResourceError, renderMetrics } from './metrics/metrics';
+import { createTracingMiddleware, initTracing } from './tracing/tracing';
 
 interface HandlerResponse {
   status?: number | unknown;
   headers?: Record<string, string>;
   body?: unknown;
   bodyTemplate?: unknown;
+  file?: string;
+  filename?: string;
+  encoding?: 'base64';
   delayMs?: number;
 }
 
@@ -28,17 +124,62 @@ interface HandlerDefinition {
   response?: HandlerResponse;
   handler?: string;
   workflow?: WorkflowDefinition;
+  stream?: StreamDefinition;
+  graphql?: boolean;
+  mock?: boolean;
+  faults?: FaultReference;
+}
+
+interface GraphqlResolverDefinition {
+  workflow?: WorkflowDefinition;
+  handler?: string;
+  value?: unknown;
+  valueTemplate?: unknown;
+}
+
+interface ApiGraphqlConfig {
+  schema?: string;
+  path?: string;
+  mock?: boolean;
+  graphiql?: boolean;
+}
+
+interface ApiValidationConfig {
+  request?: boolean;
+  response?: 'off' | 'warn' | 'enforce';
+}
+
+interface ApiResponseConfig {
+  mock?: boolean;
+  prefer?: boolean;
+  headers?: Record<string, string>;
+}
+
+interface ApiFaultsConfig {
+  profiles?: Record<string, FaultProfile>;
+  active?: FaultReference;
 }
 
 interface ApiMetadata {
   name?: string;
   basePath?: string;
   description?: string;
+  validation?: ApiValidationConfig;
+  response?: ApiResponseConfig;
+  upstream?: UpstreamConfig;
+  faults?: ApiFaultsConfig;
+  scenarios?: ScenariosConfig;
+  auth?: AuthConfig;
+  issuer?: IssuerConfig;
+  cors?: CorsConfig | boolean;
+  compression?: CompressionConfig | boolean;
+  graphql?: ApiGraphqlConfig;
 }
 
 interface HandlersFile {
   api?: ApiMetadata;
-  routes: HandlerDefinition[];
+  routes?: HandlerDefinition[];
+  resolvers?: Record<string, GraphqlResolverDefinition>;
 }
 
 interface VirtualApi {
@@ -46,9 +187,34 @@ interface VirtualApi {
   name: string;
   description?: string;
   basePath: string;
-  openApiPath: string;
+  dir: string;
+  openApiPath?: string;
   openApi: any;
   handlers: HandlerDefinition[];
+  validation: ApiValidationConfig;
+  response: ApiResponseConfig;
+  upstream?: UpstreamConfig;
+  faults: ApiFaultsConfig;
+  scenarios: ScenariosConfig;
+  auth: AuthConfig;
+  issuer?: IssuerConfig;
+  cors?: CorsConfig | boolean;
+  compression?: CompressionConfig | boolean;
+  graphql?: {
+    schema: GraphQLSchema;
+    schemaPath: string;
+    path: string;
+    mock: boolean;
+    graphiql: boolean;
+    resolvers: Record<string, GraphqlResolverDefinition>;
+  };
+}
+
+interface InvalidApi {
+  id: string;
+  basePath: string;
+  error: string;
+  errors: ConfigIssue[];
 }
 
 interface ResourcesConfig {
@@ -65,12 +231,43 @@ const HOT_RELOAD_ENABLED = (process.env.HOT_RELOAD_ENABLED ?? 'true').toLowerCas
 const HOT_RELOAD_INTERVAL_MS = Number(process.env.HOT_RELOAD_INTERVAL_MS ?? 2000);
 const VIRTUAL_STATE_AUTO_LOAD_SEEDS =
   (process.env.VIRTUAL_STATE_AUTO_LOAD_SEEDS ?? 'true').toLowerCase() !== 'false';
+const OPENAPI_MOCK_ENABLED = (process.env.OPENAPI_MOCK_ENABLED ?? 'false').toLowerCase() === 'true';
+const METRICS_ENABLED = (process.env.METRICS_ENABLED ?? 'true').toLowerCase() !== 'false';
+const OTEL_TRACES_ENDPOINT =
+  (process.env.OTEL_SDK_DISABLED ?? 'false').toLowerCase() === 'true'
+    ? null
+    : process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ||
+      (process.env.OTEL_EXPORTER_OTLP_ENDPOINT
+        ? `${process.env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/+$/, '')}/v1/traces`
+        : null);
+const OTEL_SERVICE_NAME = process.env.OTEL_SERVICE_NAME ?? 'api-virtual';
+const REQUEST_JOURNAL_ENABLED =
+  (process.env.REQUEST_JOURNAL_ENABLED ?? 'true').toLowerCase() !== 'false';
+const REQUEST_JOURNAL_LIMIT = Number(process.env.REQUEST_JOURNAL_LIMIT ?? 500);
+const REQUEST_JOURNAL_BODY_LIMIT = Number(process.env.REQUEST_JOURNAL_BODY_LIMIT ?? 65536);
+const VIRTUAL_SESSION_HEADER = process.env.VIRTUAL_SESSION_HEADER ?? 'x-virtual-session';
+const VIRTUAL_SESSION_QUERY_PARAM = process.env.VIRTUAL_SESSION_QUERY_PARAM ?? 'virtualSession';
+const VIRTUAL_BODY_LIMIT = process.env.VIRTUAL_BODY_LIMIT ?? '5mb';
+const VIRTUAL_WEBHOOKS_FILE =
+  process.env.VIRTUAL_WEBHOOKS_FILE ?? path.join(os.tmpdir(), 'api-virtual', 'webhooks.json');
+const VIRTUAL_WEBHOOKS_HISTORY = Number(process.env.VIRTUAL_WEBHOOKS_HISTORY ?? 500);
+const GRAPHQL_SCHEMA_FILES = ['schema.graphql', 'schema.gql'];
 const VIRTUAL_APIS = parseCsvEnv(process.env.VIRTUAL_APIS);
 const VIRTUAL_APIS_EXCLUDE = parseCsvEnv(process.env.VIRTUAL_APIS_EXCLUDE);
 const defaultResourcesRoot = path.resolve(__dirname, '..', 'resources');
 const resourcesRoots = resolveResourcesRoots();
 const assetsRoot = path.resolve(__dirname, '..', 'public', 'assets');
 const handlersRoot = path.resolve(__dirname, 'handlers');
+const graphiqlAssets = new Map<string, string>([
+  ['graphiql.min.js', path.join(packageRoot('graphiql'), 'graphiql.min.js')],
+  ['graphiql.min.css', path.join(packageRoot('graphiql'), 'graphiql.min.css')],
+  ['react.production.min.js', path.join(packageRoot('react'), 'umd', 'react.production.min.js')],
+  ['react-dom.production.min.js', path.join(packageRoot('react-dom'), 'umd', 'react-dom.production.min.js')]
+]);
+const loadHandlersFile = createHandlersFileLoader(
+  path.join(defaultResourcesRoot, 'apis', 'handlers.schema.json'),
+  WORKFLOW_ACTIONS
+);
 const swaggerCss = `
   .swagger-ui .topbar { background: #0f172a; }
   .swagger-ui .topbar .wrapper .link,
@@ -115,8 +312,17 @@ const swaggerCss = `
   }
 `;
 
+initTracing({
+  endpoint: OTEL_TRACES_ENDPOINT,
+  serviceName: OTEL_SERVICE_NAME,
+  headers: parseKeyValueEnv(process.env.OTEL_EXPORTER_OTLP_TRACES_HEADERS ?? process.env.OTEL_EXPORTER_OTLP_HEADERS),
+  resourceAttributes: parseKeyValueEnv(process.env.OTEL_RESOURCE_ATTRIBUTES),
+  log
+});
+
 const app = express();
-app.use(express.json());
+app.use(createTracingMiddleware());
+app.use(express.json({ limit: VIRTUAL_BODY_LIMIT, verify: captureRawBody }));
 app.use(
   morgan((tokens, req, res) => {
     const method = tokens.method(req, res);
@@ -130,6 +336,14 @@ app.use(
 if (fs.existsSync(assetsRoot)) {
   app.use('/assets', express.static(assetsRoot));
 }
+app.get('/assets/graphiql/:file', (req, res) => {
+  const file = graphiqlAssets.get(req.params.file);
+  if (!file) {
+    res.status(404).end();
+    return;
+  }
+  res.sendFile(file, { maxAge: '1d' });
+});
 
 const logLevelOrder: Record<string, number> = {
   debug: 10,
@@ -193,12 +407,60 @@ if (TIMING_ENABLED || TIMING_LOG) {
   });
 }
 
+if (METRICS_ENABLED) {
+  app.use((req, res, next) => {
+    const start = process.hrtime.bigint();
+    let observed = false;
+    const record = () => {
+      if (observed || !res.locals.apiId) {
+        return;
+      }
+      observed = true;
+      observeRequest(
+        {
+          api: res.locals.apiId,
+          route: res.locals.routePath ?? '',
+          handler: res.locals.handlerType ?? 'unknown',
+          method: req.method,
+          status: res.statusCode
+        },
+        Number(process.hrtime.bigint() - start) / 1e9
+      );
+    };
+    res.on('finish', record);
+    res.on('close', record);
+    next();
+  });
+}
+
+if (REQUEST_JOURNAL_ENABLED) {
+  app.use(
+    journalMiddleware({
+      limit: REQUEST_JOURNAL_LIMIT,
+      bodyLimitBytes: REQUEST_JOURNAL_BODY_LIMIT,
+      ignorePrefixes: ['/virtual/', '/assets/']
+    })
+  );
+}
+
 log('info', `Resources roots: ${resourcesRoots.join(', ')}`);
 log('info', `Swagger enabled: ${SWAGGER_ENABLED ? 'true' : 'false'}`);
 log('info', `Timing enabled: ${TIMING_ENABLED ? 'true' : 'false'}`);
 log('info', `Timing log: ${TIMING_LOG ? 'true' : 'false'}`);
+log('info', `Metrics: ${METRICS_ENABLED ? 'true' : 'false'}`);
+log('info', `Tracing: ${OTEL_TRACES_ENDPOINT ? `${OTEL_SERVICE_NAME} -> ${OTEL_TRACES_ENDPOINT}` : 'false'}`);
 log('info', `Hot reload: ${HOT_RELOAD_ENABLED ? 'true' : 'false'}`);
 log('info', `Virtual state seed autoload: ${VIRTUAL_STATE_AUTO_LOAD_SEEDS ? 'true' : 'false'}`);
+log('info', `Request journal: ${REQUEST_JOURNAL_ENABLED ? `true (${REQUEST_JOURNAL_LIMIT})` : 'false'}`);
+log('info', `Virtual session: header ${VIRTUAL_SESSION_HEADER}, query ?${VIRTUAL_SESSION_QUERY_PARAM}`);
+log('info', `Request body limit: ${VIRTUAL_BODY_LIMIT}`);
+const pendingWebhooks = initWebhookStore({
+  file: VIRTUAL_WEBHOOKS_FILE || null,
+  historyLimit: VIRTUAL_WEBHOOKS_HISTORY,
+  log
+});
+log('info', `Webhook store: ${VIRTUAL_WEBHOOKS_FILE || 'memory'} (${pendingWebhooks} pending)`);
+log('info', `OpenAPI mock fallback: ${OPENAPI_MOCK_ENABLED ? 'true' : 'false'}`);
 if (VIRTUAL_APIS.length > 0) {
   log('info', `API allowlist: ${VIRTUAL_APIS.join(', ')}`);
 }
@@ -211,6 +473,7 @@ let currentState = buildAppState();
 let currentRouter = currentState.router;
 
 log('info', `Loaded ${currentState.apis.length} API(s)`);
+logInvalidApis();
 void loadVirtualStateSeeds(resourcesRoots, currentState.sharedResources);
 
 app.use((req, res, next) => currentRouter(req, res, next));
@@ -243,10 +506,12 @@ app.get('/virtual/apis', (_req, res) => {
     name: api.name,
     description: api.description ?? api.openApi?.info?.description,
     basePath: api.basePath,
-    operations: api.handlers.length
+    operations: countOperations(api),
+    ...(api.graphql ? { graphql: apiUrl(api.basePath, api.graphql.path) } : {})
   }));
   res.json({
     apis: payload,
+    invalidApis: currentState.invalidApis,
     resources: Object.keys(currentState.sharedResources.resources ?? {}),
     swaggerEnabled: SWAGGER_ENABLED
   });
@@ -258,6 +523,7 @@ app.get('/virtual/apis/ui', (_req, res) => {
       const description = api.description ?? api.openApi?.info?.description ?? '';
       const docsUrl = apiUrl(api.basePath, '/docs');
       const openApiUrl = apiUrl(api.basePath, '/__meta/openapi');
+      const coverage = buildApiCoverage(api);
       return `
         <article class="card">
           <h2>${escapeHtml(api.name ?? api.id)}</h2>
@@ -265,11 +531,33 @@ app.get('/virtual/apis/ui', (_req, res) => {
           <div class="meta">
             <span class="pill">${escapeHtml(api.id)}</span>
             <span class="pill">${escapeHtml(api.basePath)}</span>
-            <span class="pill">${api.handlers.length} ops</span>
+            <span class="pill">${countOperations(api)} ops</span>
+            <span class="pill">${coverage.summary.coveragePercent}% of contract</span>
+            ${api.graphql ? '<span class="pill">GraphQL</span>' : ''}
           </div>
           <div class="links">
             <a href="${escapeHtml(docsUrl)}">Docs</a>
             <a href="${escapeHtml(openApiUrl)}">OpenAPI</a>
+            ${api.graphql?.graphiql ? `<a href="${escapeHtml(apiUrl(api.basePath, api.graphql.path))}">GraphiQL</a>` : ''}
+            <a href="/virtual/coverage/ui#${escapeHtml(api.id)}">Coverage</a>
+          </div>
+        </article>
+      `;
+    })
+    .join('');
+
+  const failed = currentState.invalidApis
+    .map(api => {
+      const details = api.errors.length > 0 ? api.errors.map(formatIssue).join('\n') : api.error;
+      return `
+        <article class="card broken">
+          <h2>${escapeHtml(api.id)}</h2>
+          <p>Failed to load. Requests to ${escapeHtml(api.basePath)} answer 503.</p>
+          <pre class="error">${escapeHtml(details)}</pre>
+          <div class="meta">
+            <span class="pill">${escapeHtml(api.id)}</span>
+            <span class="pill">${escapeHtml(api.basePath)}</span>
+            <span class="pill error-pill">load error</span>
           </div>
         </article>
       `;
@@ -342,6 +630,15 @@ app.get('/virtual/apis/ui', (_req, res) => {
           }
           .links a:hover { text-decoration: underline; }
           .resources { margin-top: 16px; display: flex; flex-wrap: wrap; gap: 6px; }
+          .card.broken { border-color: #7f1d1d; }
+          .error {
+            margin: 0;
+            color: #fca5a5;
+            font-size: 12px;
+            white-space: pre-wrap;
+            word-break: break-word;
+          }
+          .error-pill { color: #fca5a5; border-color: #7f1d1d; }
         </style>
       </head>
       <body>
@@ -351,18 +648,405 @@ app.get('/virtual/apis/ui', (_req, res) => {
           <div class="resources">${resources}</div>
         </header>
         <main>
-          <section class="grid">${items}</section>
+          <section class="grid">${items}${failed}</section>
         </main>
       </body>
     </html>
   `);
 });
 
+app.get('/virtual/apis/:id/faults', (req, res) => {
+  const api = currentState.apis.find(item => item.id === req.params.id);
+  if (!api) {
+    res.status(404).json({ message: `API ${req.params.id} not found` });
+    return;
+  }
+  res.json({
+    api: api.id,
+    profiles: api.faults.profiles ?? {},
+    configured: {
+      active: api.faults.active ?? null,
+      routes: Object.fromEntries(
+        api.handlers
+          .filter(handler => handler.faults !== undefined)
+          .map(handler => [faultRouteKey(handler.method, handler.path), handler.faults])
+      )
+    },
+    runtime: listRuntimeFaults(api.id)
+  });
+});
+
+app.put('/virtual/apis/:id/faults', (req, res) => {
+  const api = currentState.apis.find(item => item.id === req.params.id);
+  if (!api) {
+    res.status(404).json({ message: `API ${req.params.id} not found` });
+    return;
+  }
+  const body = asRecord(req.body);
+  const profile = body.profile as FaultReference | undefined;
+  if (profile === undefined || (profile !== null && typeof profile !== 'string' && !isRecord(profile))) {
+    res.status(400).json({ message: 'profile must be a profile name, an inline profile or null' });
+    return;
+  }
+  if (typeof profile === 'string' && !api.faults.profiles?.[profile]) {
+    res.status(400).json({ message: `Unknown fault profile "${profile}"` });
+    return;
+  }
+  const method = asString(body.method, '');
+  const routePath = asString(body.path, '');
+  if (Boolean(method) !== Boolean(routePath)) {
+    res.status(400).json({ message: 'method and path must be provided together' });
+    return;
+  }
+  const routeKey = method ? faultRouteKey(method, routePath) : undefined;
+  if (routeKey && !api.handlers.some(handler => faultRouteKey(handler.method, handler.path) === routeKey)) {
+    res.status(400).json({ message: `Route ${routeKey} is not defined in ${api.id}` });
+    return;
+  }
+  setRuntimeFault(api.id, routeKey, profile);
+  log('info', `Fault profile for ${api.id} ${routeKey ?? '(api)'} set at runtime`);
+  res.json({ api: api.id, runtime: listRuntimeFaults(api.id) });
+});
+
+app.delete('/virtual/apis/:id/faults', (req, res) => {
+  clearRuntimeFaults(req.params.id);
+  res.json({ api: req.params.id, runtime: {} });
+});
+
+app.get('/virtual/apis/:id/scenario', (req, res) => {
+  const api = currentState.apis.find(item => item.id === req.params.id);
+  if (!api) {
+    res.status(404).json({ message: `API ${req.params.id} not found` });
+    return;
+  }
+  res.json(describeScenarios(api));
+});
+
+app.put('/virtual/apis/:id/scenario', (req, res) => {
+  const api = currentState.apis.find(item => item.id === req.params.id);
+  if (!api) {
+    res.status(404).json({ message: `API ${req.params.id} not found` });
+    return;
+  }
+  const name = asRecord(req.body).name;
+  if (name !== null && typeof name !== 'string') {
+    res.status(400).json({ message: 'name must be a scenario name or null' });
+    return;
+  }
+  if (typeof name === 'string' && !api.scenarios.definitions?.[name]) {
+    res.status(400).json({
+      message: `Unknown scenario "${name}"`,
+      available: Object.keys(api.scenarios.definitions ?? {})
+    });
+    return;
+  }
+  setActiveScenario(api.id, name);
+  log('info', `Scenario for ${api.id} switched to ${getActiveScenario(api.id, api.scenarios) ?? '(none)'}`);
+  res.json(describeScenarios(api));
+});
+
+if (METRICS_ENABLED) {
+  app.get('/virtual/metrics', (_req, res) => {
+    res.setHeader('content-type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(
+      renderMetrics([
+        { name: 'virtual_apis_loaded', help: 'Virtual APIs currently served.', value: currentState.apis.length },
+        { name: 'virtual_apis_invalid', help: 'Virtual APIs that failed to load.', value: currentState.invalidApis.length },
+        {
+          name: 'virtual_stream_connections',
+          help: 'Open SSE and WebSocket connections.',
+          value: listStreamConnections().length
+        },
+        {
+          name: 'virtual_webhooks_pending',
+          help: 'Scheduled webhook callbacks not delivered yet.',
+          value: listWebhooks({ status: 'pending' }).length
+        }
+      ])
+    );
+  });
+}
+
+app.get('/virtual/coverage', (_req, res) => {
+  res.json({ apis: currentState.apis.map(api => buildApiCoverage(api)) });
+});
+
+app.get('/virtual/coverage/ui', (_req, res) => {
+  const sections = currentState.apis
+    .map(api => {
+      const report = buildApiCoverage(api);
+      const rows = report.entries
+        .map(
+          entry => `
+            <tr class="${entry.status}">
+              <td><span class="method">${escapeHtml(entry.method)}</span></td>
+              <td>${escapeHtml(entry.path)}</td>
+              <td>${escapeHtml(entry.operationId ?? '')}</td>
+              <td><span class="pill ${entry.status}">${escapeHtml(entry.status)}</span></td>
+              <td>${escapeHtml(entry.implementation ?? '-')}</td>
+              <td class="num">${entry.hits}</td>
+              <td>${escapeHtml(
+                Object.entries(entry.statuses)
+                  .map(([status, total]) => `${status}\u00d7${total}`)
+                  .join(' ')
+              )}</td>
+            </tr>
+          `
+        )
+        .join('');
+      return `
+        <section class="api" id="${escapeHtml(api.id)}">
+          <h2>${escapeHtml(api.name)} <span class="sub">${escapeHtml(api.basePath)}</span></h2>
+          <div class="summary">
+            <span class="pill">${report.summary.operations} operations</span>
+            <span class="pill virtualized">${report.summary.coveragePercent}% virtualized</span>
+            <span class="pill">${report.summary.exercisedPercent}% exercised</span>
+            <span class="pill missing">${report.summary.missing} missing</span>
+            <span class="pill undeclared">${report.summary.undeclared} undeclared</span>
+          </div>
+          <table>
+            <thead>
+              <tr><th>Method</th><th>Path</th><th>Operation</th><th>Status</th><th>Type</th><th>Hits</th><th>Responses</th></tr>
+            </thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </section>
+      `;
+    })
+    .join('');
+
+  res.setHeader('content-type', 'text/html; charset=utf-8');
+  res.send(`
+    <!doctype html>
+    <html lang="en">
+      <head>
+        <meta charset="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>Virtual APIs coverage</title>
+        <style>
+          :root { color-scheme: light dark; }
+          * { box-sizing: border-box; }
+          body {
+            margin: 0;
+            font-family: "IBM Plex Sans", "Segoe UI", sans-serif;
+            background: #0f172a;
+            color: #e2e8f0;
+          }
+          header {
+            padding: 24px 32px;
+            background: #111827;
+            border-bottom: 1px solid #1f2937;
+          }
+          header a { color: #38bdf8; text-decoration: none; font-size: 13px; font-weight: 600; }
+          h1 { margin: 0 0 8px; font-size: 22px; }
+          h2 { margin: 0 0 10px; font-size: 18px; }
+          .sub { color: #94a3b8; font-size: 14px; font-weight: 400; }
+          main { padding: 24px 32px 40px; display: flex; flex-direction: column; gap: 24px; }
+          .api {
+            background: #111827;
+            border: 1px solid #1f2937;
+            border-radius: 14px;
+            padding: 16px;
+          }
+          .summary { display: flex; flex-wrap: wrap; gap: 6px; margin-bottom: 12px; }
+          table { width: 100%; border-collapse: collapse; font-size: 13px; }
+          th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #1f2937; }
+          th { color: #94a3b8; font-weight: 600; }
+          .num { text-align: right; }
+          .method { font-weight: 600; color: #cbd5f5; }
+          .pill {
+            display: inline-flex;
+            align-items: center;
+            padding: 4px 8px;
+            border-radius: 999px;
+            font-size: 12px;
+            background: #0b1220;
+            color: #cbd5f5;
+            border: 1px solid #1e293b;
+          }
+          .pill.virtualized { color: #86efac; border-color: #14532d; }
+          .pill.fallback { color: #fde68a; border-color: #713f12; }
+          .pill.missing { color: #fca5a5; border-color: #7f1d1d; }
+          .pill.undeclared { color: #c4b5fd; border-color: #4c1d95; }
+        </style>
+      </head>
+      <body>
+        <header>
+          <h1>Contract coverage</h1>
+          <a href="/virtual/apis/ui">Back to catalog</a>
+        </header>
+        <main>${sections}</main>
+      </body>
+    </html>
+  `);
+});
+
+app.get('/virtual/apis/:id/coverage', (req, res) => {
+  const api = currentState.apis.find(item => item.id === req.params.id);
+  if (!api) {
+    res.status(404).json({ message: `API ${req.params.id} not found` });
+    return;
+  }
+  res.json(buildApiCoverage(api));
+});
+
+app.delete('/virtual/coverage', (req, res) => {
+  const apiId = queryString(req.query.api);
+  clearHits(apiId);
+  res.json({ cleared: apiId ?? 'all' });
+});
+
+app.get('/virtual/sessions', (_req, res) => {
+  res.json({
+    header: VIRTUAL_SESSION_HEADER,
+    queryParam: VIRTUAL_SESSION_QUERY_PARAM,
+    sessions: listSessions()
+  });
+});
+
+app.delete('/virtual/sessions/:id', async (req, res) => {
+  const session = req.params.id;
+  try {
+    const deleted = await deleteVirtualStateSession(
+      currentState.sharedResources.resources ?? {},
+      session
+    );
+    forgetSession(session);
+    log('info', `Dropped session ${session} (${deleted} document(s))`);
+    res.json({ session, deleted });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log('error', `Dropping session ${session} failed: ${message}`);
+    res.status(500).json({ message: 'Dropping session failed', error: message });
+  }
+});
+
+app.get('/virtual/requests', (req, res) => {
+  const status = req.query.status !== undefined ? Number(req.query.status) : undefined;
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : 100;
+  const requests = listEntries({
+    api: queryString(req.query.api),
+    method: queryString(req.query.method),
+    path: queryString(req.query.path),
+    route: queryString(req.query.route),
+    status: Number.isFinite(status) ? status : undefined,
+    requestId: queryString(req.query.requestId),
+    session: queryString(req.query.session),
+    since: queryString(req.query.since)
+  });
+  res.json({
+    enabled: REQUEST_JOURNAL_ENABLED,
+    total: requests.length,
+    requests: requests.slice(0, Number.isFinite(limit) ? Math.max(0, limit) : 100)
+  });
+});
+
+app.get('/virtual/requests/:id', (req, res) => {
+  const entry = getEntry(req.params.id);
+  if (!entry) {
+    res.status(404).json({ message: `Request ${req.params.id} not found in journal` });
+    return;
+  }
+  res.json(entry);
+});
+
+app.delete('/virtual/requests', (_req, res) => {
+  res.json({ cleared: clearEntries() });
+});
+
+app.get('/virtual/webhooks', (req, res) => {
+  const webhooks = listWebhooks({
+    api: queryString(req.query.api),
+    status: queryString(req.query.status),
+    session: queryString(req.query.session),
+    requestId: queryString(req.query.requestId)
+  });
+  res.json({ total: webhooks.length, webhooks });
+});
+
+app.get('/virtual/webhooks/:id', (req, res) => {
+  const webhook = getWebhook(req.params.id);
+  if (!webhook) {
+    res.status(404).json({ message: `Webhook ${req.params.id} not found` });
+    return;
+  }
+  res.json(webhook);
+});
+
+app.delete('/virtual/webhooks/:id', (req, res) => {
+  try {
+    const webhook = cancelWebhook(req.params.id);
+    if (!webhook) {
+      res.status(404).json({ message: `Webhook ${req.params.id} not found` });
+      return;
+    }
+    log('info', `Cancelled webhook ${webhook.id}`);
+    res.json(webhook);
+  } catch (error) {
+    if (error instanceof WebhookStateError) {
+      res.status(409).json({ message: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+app.delete('/virtual/webhooks', (_req, res) => {
+  res.json({ cleared: clearFinishedWebhooks() });
+});
+
+app.get('/virtual/streams', (req, res) => {
+  const streams = listStreamConnections({
+    api: queryString(req.query.api),
+    channel: queryString(req.query.channel)
+  });
+  res.json({ total: streams.length, streams });
+});
+
+app.post('/virtual/streams/publish', (req, res) => {
+  const payload = asRecord(req.body);
+  const channel = queryString(payload.channel);
+  if (!channel || payload.data === undefined) {
+    res.status(400).json({ message: 'Publishing requires channel and data' });
+    return;
+  }
+  const delivered = publishStreamMessage(
+    { api: queryString(payload.api), channel },
+    {
+      event: queryString(payload.event),
+      id: payload.id !== undefined ? String(payload.id) : undefined,
+      data: payload.data
+    }
+  );
+  res.json({ channel, delivered });
+});
+
+app.delete('/virtual/streams/:id', (req, res) => {
+  if (!closeStreamConnection(req.params.id)) {
+    res.status(404).json({ message: `Stream ${req.params.id} not found` });
+    return;
+  }
+  res.json({ closed: req.params.id });
+});
+
+app.post('/virtual/verify', (req, res) => {
+  try {
+    res.json(verifyRequests(req.body));
+  } catch (error) {
+    if (error instanceof VerifyInputError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
 app.post('/virtual/reload', (_req, res) => {
   const reloaded = reloadResources('manual');
   res.json({
     reloaded,
     apis: currentState.apis.length,
+    invalidApis: currentState.invalidApis.map(api => api.id),
     resources: Object.keys(currentState.sharedResources.resources ?? {})
   });
 });
@@ -381,12 +1065,13 @@ app.use((_req, res) => {
   res.status(404).json({ message: 'Not found in api-virtual' });
 });
 
-app.listen(DEFAULT_PORT, () => {
+const server = app.listen(DEFAULT_PORT, () => {
   // eslint-disable-next-line no-console
   console.log(
     `[api-virtual] Serving ${currentState.apis.length} API(s) from ${resourcesRoots.join(', ')} on port ${DEFAULT_PORT}`
   );
 });
+server.on('upgrade', createUpgradeListener(app));
 
 function reloadResources(trigger: 'watch' | 'manual'): boolean {
   try {
@@ -396,6 +1081,7 @@ function reloadResources(trigger: 'watch' | 'manual'): boolean {
     handlerCache.clear();
     lastResourcesFingerprint = fingerprintResources(resourcesRoots);
     log('info', `Reloaded resources (${trigger})`);
+    logInvalidApis();
     void loadVirtualStateSeeds(resourcesRoots, currentState.sharedResources);
     return true;
   } catch (error) {
@@ -405,15 +1091,25 @@ function reloadResources(trigger: 'watch' | 'manual'): boolean {
   }
 }
 
+function logInvalidApis(): void {
+  if (currentState.invalidApis.length > 0) {
+    const ids = currentState.invalidApis.map(api => api.id).join(', ');
+    log('warn', `${currentState.invalidApis.length} API(s) failed to load: ${ids}`);
+  }
+}
+
 function buildAppState(): {
   sharedResources: ResourcesConfig;
   apis: VirtualApi[];
+  invalidApis: InvalidApi[];
   router: Router;
 } {
   const sharedResources = loadResourcesConfig(resourcesRoots);
-  const apis = loadVirtualApis(resourcesRoots);
-  const router = buildApisRouter(apis, sharedResources);
-  return { sharedResources, apis, router };
+  const { router, apis, invalidApis } = buildApisRouter(
+    loadVirtualApis(resourcesRoots),
+    sharedResources
+  );
+  return { sharedResources, apis, invalidApis, router };
 }
 
 function apiUrl(basePath: string, suffix: string): string {
@@ -422,13 +1118,38 @@ function apiUrl(basePath: string, suffix: string): string {
   return `${normalizedBase}${normalizedSuffix}` || '/';
 }
 
-function buildApisRouter(apis: VirtualApi[], sharedResources: ResourcesConfig): Router {
+function buildApisRouter(
+  loaded: { apis: VirtualApi[]; invalidApis: InvalidApi[] },
+  sharedResources: ResourcesConfig
+): { router: Router; apis: VirtualApi[]; invalidApis: InvalidApi[] } {
   const router = Router();
-  apis.forEach(api => {
-    const apiRouter = buildApiRouter(api, sharedResources);
-    router.use(api.basePath, apiRouter);
+  const mounted: VirtualApi[] = [];
+  const invalidApis = [...loaded.invalidApis];
+  loaded.apis.forEach(api => {
+    try {
+      const apiRouter = buildApiRouter(api, sharedResources);
+      router.use(api.basePath, apiRouter);
+      mounted.push(api);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log('error', `Skipping ${api.id}: ${message}`);
+      invalidApis.push({ id: api.id, basePath: api.basePath, error: message, errors: [] });
+    }
   });
-  return router;
+  invalidApis.forEach(invalid => {
+    // At `/` the 503 would shadow every other API and /virtual/reload with it.
+    if (invalid.basePath === '/') {
+      return;
+    }
+    router.use(invalid.basePath, (_req, res) => {
+      res.status(503).json({
+        message: `API ${invalid.id} failed to load`,
+        error: invalid.error,
+        errors: invalid.errors
+      });
+    });
+  });
+  return { router, apis: mounted, invalidApis };
 }
 
 function fingerprintResources(roots: string[]): string {
@@ -458,7 +1179,7 @@ function collectResourceFiles(dir: string): string[] {
       results.push(...collectResourceFiles(fullPath));
     } else if (
       entry.isFile() &&
-      (entry.name.endsWith('.yaml') || entry.name.endsWith('.yml') || entry.name.endsWith('.json'))
+      ['.yaml', '.yml', '.json', '.graphql', '.gql'].includes(path.extname(entry.name))
     ) {
       results.push(fullPath);
     }
@@ -466,7 +1187,11 @@ function collectResourceFiles(dir: string): string[] {
   return results;
 }
 
-async function loadVirtualStateSeeds(roots: string[], sharedConfig: ResourcesConfig): Promise<void> {
+async function loadVirtualStateSeeds(
+  roots: string[],
+  sharedConfig: ResourcesConfig,
+  session?: string
+): Promise<void> {
   if (!VIRTUAL_STATE_AUTO_LOAD_SEEDS) {
     return;
   }
@@ -486,7 +1211,8 @@ async function loadVirtualStateSeeds(roots: string[], sharedConfig: ResourcesCon
   try {
     await client.connect();
     const collection = client.db(options.database).collection(options.stateCollection);
-    await collection.createIndex({ api: 1, collection: 1, key: 1 }, { unique: true });
+    await collection.dropIndex('api_1_collection_1_key_1').catch(() => undefined);
+    await collection.createIndex({ api: 1, collection: 1, key: 1, session: 1 }, { unique: true });
     await collection.createIndex({ api: 1, collection: 1 });
     await collection.createIndex({ api: 1, collection: 1, appId: 1 });
     const now = new Date().toISOString();
@@ -499,8 +1225,9 @@ async function loadVirtualStateSeeds(roots: string[], sharedConfig: ResourcesCon
         throw new Error(`State document requires api, collection, and key: ${JSON.stringify(raw)}`);
       }
       doc.updatedAt = doc.updatedAt ?? now;
+      doc.session = session ?? null;
       await collection.updateOne(
-        { api, collection: stateCollection, key },
+        { api, collection: stateCollection, key, session: session ?? null },
         {
           $set: doc,
           $setOnInsert: { createdAt: doc.createdAt ?? now }
@@ -510,10 +1237,13 @@ async function loadVirtualStateSeeds(roots: string[], sharedConfig: ResourcesCon
     }
     log(
       'info',
-      `Loaded ${documents.length} virtual state seed document(s) from ${files.length} file(s)`
+      `Loaded ${documents.length} virtual state seed document(s) from ${files.length} file(s)${
+        session ? ` into session ${session}` : ''
+      }`
     );
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
+    recordResourceError('mongo', 'virtualStateMongo', 'seed');
     log('error', `Virtual state seed autoload failed: ${message}`);
   } finally {
     await client.close();
@@ -600,9 +1330,19 @@ function resolveEnvBackedString(
 function buildApiRouter(api: VirtualApi, sharedConfig: ResourcesConfig): Router {
   const router = Router();
 
+  [
+    createCorsMiddleware(api.cors),
+    createDefaultHeadersMiddleware(api.response.headers),
+    createCompressionMiddleware(api.compression)
+  ].forEach(middleware => {
+    if (middleware) {
+      router.use(middleware);
+    }
+  });
+
   router.get('/__meta/openapi', (_req, res) => {
     res.setHeader('content-type', 'application/yaml');
-    res.send(fs.readFileSync(api.openApiPath, 'utf8'));
+    res.send(api.openApiPath ? fs.readFileSync(api.openApiPath, 'utf8') : stringifyYaml(api.openApi));
   });
 
   router.get('/__meta/info', (_req, res) => {
@@ -611,7 +1351,7 @@ function buildApiRouter(api: VirtualApi, sharedConfig: ResourcesConfig): Router
       name: api.name,
       description: api.description ?? api.openApi?.info?.description,
       basePath: api.basePath,
-      operations: api.handlers.length
+      operations: countOperations(api)
     });
   });
 
@@ -628,47 +1368,186 @@ function buildApiRouter(api: VirtualApi, sharedConfig: ResourcesConfig): Router
     );
   }
 
-  api.handlers.forEach(handler => {
+  if (api.issuer) {
+    router.use((req, res, next) => {
+      const route = ISSUER_ROUTES.find(
+        item => item.method === req.method.toLowerCase() && item.path === req.path
+      );
+      if (route) {
+        res.locals.apiId = api.id;
+        res.locals.routePath = route.path;
+        res.locals.handlerType = 'issuer';
+        res.on('finish', () => recordHit(api.id, route.method, route.path, res.statusCode));
+      }
+      next();
+    });
+    router.use(createIssuerRouter(api.id, api.basePath, api.issuer));
+  }
+
+  const upstreamProxy = api.upstream && resolveUpstreamUrl(api.upstream)
+    ? createUpstreamProxy({
+        apiId: api.id,
+        openApi: api.openApi,
+        resources: sharedConfig.resources ?? {},
+        upstream: api.upstream,
+        log
+      })
+    : null;
+  const proxyWithFaults = upstreamProxy
+    ? async (req: Request, res: Response, next: NextFunction) => {
+        try {
+          const matched = matchOperation(api.openApi, req.method, req.path);
+          if (matched) {
+            res.locals.apiId = api.id;
+            res.locals.routePath = matched.operation.path;
+            res.locals.handlerType = 'upstream';
+            res.on('finish', () =>
+              recordHit(api.id, req.method, toExpressPath(matched.operation.path), res.statusCode)
+            );
+          }
+          if (await applyFaults(api, undefined, req, res)) {
+            return;
+          }
+          if ((await prepareSession(req, res, sharedConfig)) === null) {
+            return;
+          }
+          await upstreamProxy(req, res);
+        } catch (error) {
+          next(error);
+        }
+      }
+    : null;
+  if (proxyWithFaults && api.upstream?.mode === 'all') {
+    router.use(proxyWithFaults);
+  }
+
+  const routes =
+    api.response.mock && !upstreamProxy
+      ? [...api.handlers, ...listUnhandledOperations(api)]
+      : api.handlers;
+
+  routes.forEach(handler => {
     const method = handler.method.toLowerCase();
     const expressPath = toExpressPath(handler.path);
     log('debug', `Register ${method.toUpperCase()} ${api.basePath}${expressPath}`);
     const response = handler.response ?? {};
+    const operation = findOperation(api.openApi, handler.method, handler.path);
+    const validators = createContractValidators(api, handler);
+    const mockResponder = handler.mock ? createMockResponder(api, handler) : null;
+    const authenticator = createRouteAuthenticator(api, handler);
+    const readBody = createBodyReader(
+      listRequestMediaTypes(api.openApi, operation),
+      {
+        limit: VIRTUAL_BODY_LIMIT,
+        strict: api.validation.request === true
+      }
+    );
 
     (router as any)[method](expressPath, async (req: Request, res: Response) => {
-      if (response.delayMs && response.delayMs > 0) {
-        await new Promise(resolve => setTimeout(resolve, response.delayMs));
+      res.locals.apiId = api.id;
+      res.locals.routePath = handler.path;
+      res.locals.handlerType = resolveHandlerType(handler);
+      res.on('finish', () => recordHit(api.id, method, expressPath, res.statusCode));
+
+      if (await applyFaults(api, handler, req, res)) {
+        return;
+      }
+
+      const session = await prepareSession(req, res, sharedConfig);
+      if (session === null) {
+        return;
+      }
+
+      const authOutcome = authenticator ? authenticator(req) : { ok: true as const };
+      if (!authOutcome.ok) {
+        Object.entries(authOutcome.headers).forEach(([key, value]) => res.setHeader(key, value));
+        res.status(authOutcome.status).json(authOutcome.body);
+        return;
+      }
+
+      let parsedBody: ParsedRequestBody;
+      try {
+        parsedBody = await readBody(req, res);
+      } catch (error) {
+        if (error instanceof BodyParseError) {
+          res.status(error.status).json({ message: error.message });
+          return;
+        }
+        throw error;
+      }
+
+      if (validators.request) {
+        const violations = validators.request(req);
+        if (violations.length > 0) {
+          res.status(400).json({ message: 'Request validation failed', errors: violations });
+          return;
+        }
+      }
+
+      const scenario = resolveScenario(api.id, api.scenarios, handler.method, handler.path);
+      const effectiveResponse = scenario.response ?? response;
+
+      if (effectiveResponse.delayMs && effectiveResponse.delayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, effectiveResponse.delayMs));
       }
 
       const context: HandlerContext = {
         params: req.params,
         query: req.query,
-        body: req.body,
+        body: parsedBody.body,
+        rawBody: parsedBody.rawBody,
+        files: parsedBody.files,
         resources: sharedConfig.resources ?? {},
         meta: {
           now: new Date().toISOString(),
           randomId: createRandomId(),
           requestId:
-            (req.headers['x-request-id'] as string | undefined) ?? createRandomId()
+            (req.headers['x-request-id'] as string | undefined) ?? createRandomId(),
+          scenario: scenario.name,
+          session
         },
+        auth: authOutcome.auth,
         req,
         res
       };
+      res.locals.requestId = context.meta.requestId;
+
+      if (handler.stream && !scenario.response) {
+        openRouteStream(api, handler, handler.stream, context, scenario.vars);
+        return;
+      }
+
+      if (handler.graphql && api.graphql && !scenario.response) {
+        await respondGraphql(api, api.graphql, context, scenario.vars);
+        return;
+      }
 
-      if (handler.workflow) {
+      if (handler.workflow && !scenario.response) {
         try {
-          const result = await executeWorkflow(handler.workflow, context);
+          const result = await executeWorkflow(handler.workflow, context, scenario.vars);
           if (res.headersSent || res.writableEnded) {
             return;
           }
-          const normalized = normalizeHandlerResult(result);
-          const status = normalized.status ?? 200;
-          const headers = normalized.headers ?? {};
-          Object.entries(headers).forEach(([key, value]) => res.setHeader(key, value));
-          sendResponseBody(res, status, normalized.body);
+          sendHandlerResult(
+            req,
+            res,
+            applyResponseContract(api, handler, validators.response, normalizeHandlerResult(result)),
+            api,
+            operation
+          );
         } catch (error) {
           if (error instanceof WorkflowHttpError) {
             if (!res.headersSent) {
-              sendResponseBody(res, error.status, error.body);
+              sendHandlerResult(
+                req,
+                res,
+                applyResponseContract(api, handler, validators.response, {
+                  status: error.status,
+                  body: error.body
+                }),
+                api,
+                operation
+              );
             }
             return;
           }
@@ -681,7 +1560,7 @@ function buildApiRouter(api: VirtualApi, sharedConfig: ResourcesConfig): Router
         return;
       }
 
-      if (handler.handler) {
+      if (handler.handler && !scenario.response) {
         try {
           const handlerFn = loadHandler(handler.handler);
           const result = await handlerFn(context);
@@ -692,11 +1571,13 @@ function buildApiRouter(api: VirtualApi, sharedConfig: ResourcesConfig): Router
             res.status(500).json({ message: 'Handler returned no response' });
             return;
           }
-          const normalized = normalizeHandlerResult(result);
-          const status = normalized.status ?? 200;
-          const headers = normalized.headers ?? {};
-          Object.entries(headers).forEach(([key, value]) => res.setHeader(key, value));
-          sendResponseBody(res, status, normalized.body);
+          sendHandlerResult(
+            req,
+            res,
+            applyResponseContract(api, handler, validators.response, normalizeHandlerResult(result)),
+            api,
+            operation
+          );
         } catch (error) {
           const message = error instanceof Error ? error.message : String(error);
           log('error', `Handler failed for ${api.id} ${handler.path}: ${message}`);
@@ -707,23 +1588,245 @@ function buildApiRouter(api: VirtualApi, sharedConfig: ResourcesConfig): Router
         return;
       }
 
-      const rawStatus = response.status !== undefined ? applyTemplate(response.status, context) : 200;
+      if (mockResponder && !scenario.response) {
+        const preference = api.response.prefer !== false ? parsePreferHeader(req.headers.prefer) : {};
+        sendHandlerResult(req, res, mockResponder(preference), api, operation);
+        return;
+      }
+
+      const templateContext = { ...context, vars: scenario.vars };
+      const rawStatus =
+        effectiveResponse.status !== undefined
+          ? applyTemplate(effectiveResponse.status, templateContext)
+          : 200;
       const status = Number(rawStatus) || 200;
-      const headers = applyTemplate(response.headers ?? {}, context) as Record<string, string>;
-      Object.entries(headers).forEach(([key, value]) => res.setHeader(key, value));
+      const headers = applyTemplate(effectiveResponse.headers ?? {}, templateContext) as Record<string, string>;
 
       const payload =
-        response.bodyTemplate !== undefined
-          ? applyTemplate(response.bodyTemplate, context)
-          : response.body ?? { ok: true };
+        effectiveResponse.bodyTemplate !== undefined
+          ? applyTemplate(effectiveResponse.bodyTemplate, templateContext)
+          : effectiveResponse.body ?? { ok: true };
 
-      sendResponseBody(res, status, payload);
+      sendHandlerResult(
+        req,
+        res,
+        {
+          status,
+          headers,
+          body: payload,
+          file:
+            effectiveResponse.file !== undefined
+              ? String(applyTemplate(effectiveResponse.file, templateContext))
+              : undefined,
+          filename:
+            effectiveResponse.filename !== undefined
+              ? String(applyTemplate(effectiveResponse.filename, templateContext))
+              : undefined,
+          encoding: effectiveResponse.encoding
+        },
+        api,
+        operation
+      );
     });
   });
 
+  if (proxyWithFaults && api.upstream?.mode !== 'all') {
+    router.use(proxyWithFaults);
+  }
+
   return router;
 }
 
+function buildApiCoverage(api: VirtualApi) {
+  const upstreamEnabled = Boolean(api.upstream && resolveUpstreamUrl(api.upstream));
+  return buildCoverageReport({
+    id: api.id,
+    openApi: api.openApi,
+    routes: [
+      ...(api.issuer ? ISSUER_ROUTES.map(route => ({ ...route, type: 'issuer' })) : []),
+      ...api.handlers.map(handler => ({
+        method: handler.method,
+        path: handler.path,
+        type: resolveHandlerType(handler)
+      }))
+    ],
+    fallback: upstreamEnabled ? 'upstream' : api.response.mock ? 'mock' : undefined
+  });
+}
+
+function describeScenarios(api: VirtualApi) {
+  return {
+    api: api.id,
+    active: getActiveScenario(api.id, api.scenarios) ?? null,
+    default: api.scenarios.active ?? null,
+    scenarios: Object.entries(api.scenarios.definitions ?? {}).map(([name, definition]) => ({
+      name,
+      description: definition.description,
+      routes: (definition.routes ?? []).map(route => `${route.method.toUpperCase()} ${route.path}`)
+    }))
+  };
+}
+
+/**
+ * Resolves the request session and seeds it on first use. Returns null when the
+ * session id is invalid and a 400 was already sent.
+ */
+async function prepareSession(
+  req: Request,
+  res: Response,
+  sharedConfig: ResourcesConfig
+): Promise<string | undefined | null> {
+  let session: string | undefined;
+  try {
+    session = resolveSession(req, VIRTUAL_SESSION_HEADER, VIRTUAL_SESSION_QUERY_PARAM);
+  } catch (error) {
+    if (error instanceof SessionInputError) {
+      res.status(400).json({ message: error.message });
+      return null;
+    }
+    throw error;
+  }
+  if (session) {
+    res.locals.session = session;
+    await ensureSessionSeeded(session, () =>
+      loadVirtualStateSeeds(resourcesRoots, sharedConfig, session)
+    );
+  }
+  return session;
+}
+
+async function applyFaults(
+  api: VirtualApi,
+  handler: HandlerDefinition | undefined,
+  req: Request,
+  res: Response
+): Promise<boolean> {
+  let profile: FaultProfile | null;
+  try {
+    profile = resolveFaultProfile(
+      api.id,
+      handler ? faultRouteKey(handler.method, handler.path) : undefined,
+      { api: api.faults.active, route: handler?.faults },
+      api.faults.profiles ?? {}
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log('warn', `Fault injection skipped for ${api.id}: ${message}`);
+    return false;
+  }
+  if (!profile) {
+    return false;
+  }
+  const handled = await injectFaults(profile, req, res);
+  if (handled) {
+    log('debug', `Injected fault on ${api.id} ${req.method} ${req.path}`);
+  }
+  return handled;
+}
+
+function countOperations(api: VirtualApi): number {
+  return api.handlers.length + (api.issuer ? ISSUER_ROUTES.length : 0);
+}
+
+function resolveHandlerType(handler: HandlerDefinition): string {
+  if (handler.graphql) {
+    return 'graphql';
+  }
+  if (handler.stream) {
+    return 'stream';
+  }
+  if (handler.workflow) {
+    return 'workflow';
+  }
+  if (handler.handler) {
+    return 'handler';
+  }
+  return handler.mock ? 'mock' : 'static';
+}
+
+function listUnhandledOperations(api: VirtualApi): HandlerDefinition[] {
+  const handled = new Set(api.handlers.map(handler => `${handler.method} ${handler.path}`));
+  return listOperations(api.openApi)
+    .filter(operation => !handled.has(`${operation.method} ${operation.path}`))
+    .map(operation => ({
+      operationId:
+        typeof operation.operation.operationId === 'string' ? operation.operation.operationId : undefined,
+      method: operation.method,
+      path: operation.path,
+      mock: true
+    }));
+}
+
+function createMockResponder(api: VirtualApi, handler: HandlerDefinition): MockResponder | null {
+  const operation = findOperation(api.openApi, handler.method, handler.path);
+  if (!operation) {
+    log('warn', `Mock route ${handler.method.toUpperCase()} ${handler.path} in ${api.id} has no OpenAPI operation`);
+    return null;
+  }
+  return buildMockResponder(api.openApi, operation);
+}
+
+function createRouteAuthenticator(api: VirtualApi, handler: HandlerDefinition): Authenticator | null {
+  return createAuthenticator(
+    api.openApi,
+    findOperation(api.openApi, handler.method, handler.path),
+    api.auth
+  );
+}
+
+function createContractValidators(
+  api: VirtualApi,
+  handler: HandlerDefinition
+): { request: RequestValidator | null; response: ResponseValidator | null } {
+  const responseMode = api.validation.response ?? 'off';
+  if (!api.validation.request && responseMode === 'off') {
+    return { request: null, response: null };
+  }
+  const operation = findOperation(api.openApi, handler.method, handler.path);
+  if (!operation) {
+    log('debug', `No OpenAPI operation for ${handler.method.toUpperCase()} ${handler.path} in ${api.id}`);
+    return { request: null, response: null };
+  }
+  try {
+    return {
+      request: api.validation.request ? buildRequestValidator(api.openApi, operation) : null,
+      response: responseMode !== 'off' ? buildResponseValidator(api.openApi, operation) : null
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log('warn', `Contract validation disabled for ${api.id} ${handler.path}: ${message}`);
+    return { request: null, response: null };
+  }
+}
+
+function applyResponseContract(
+  api: VirtualApi,
+  handler: HandlerDefinition,
+  validator: ResponseValidator | null,
+  result: HandlerResult
+): HandlerResult {
+  if (!validator) {
+    return result;
+  }
+  const violations = validator(result);
+  if (violations.length === 0) {
+    return result;
+  }
+  const label = `${api.id} ${handler.method.toUpperCase()} ${handler.path}`;
+  log('warn', `Response contract drift for ${label}: ${JSON.stringify(violations)}`);
+  if (api.validation.response !== 'enforce') {
+    return result;
+  }
+  return {
+    status: 500,
+    body: {
+      message: 'Response validation failed',
+      status: result.status ?? 200,
+      errors: violations
+    }
+  };
+}
+
 function escapeHtml(input: string) {
   return input.replace(/[&<>"']/g, char => {
     switch (char) {
@@ -758,20 +1861,36 @@ function loadResourcesConfig(roots: string[]): ResourcesConfig {
   return parsed;
 }
 
-function loadVirtualApis(roots: string[]): VirtualApi[] {
-  const apis = roots.flatMap(root => loadVirtualApisFromRoot(root));
+function loadVirtualApis(roots: string[]): { apis: VirtualApi[]; invalidApis: InvalidApi[] } {
+  const invalidApis: InvalidApi[] = [];
   const seen = new Set<string>();
-  return apis.filter(api => {
-    if (seen.has(api.id)) {
-      log('warn', `Ignoring duplicate API id ${api.id} from ${api.openApiPath}`);
+  const apis = roots
+    .flatMap(root => loadVirtualApisFromRoot(root, invalidApis))
+    .filter(api => {
+      if (seen.has(api.id)) {
+        log('warn', `Ignoring duplicate API id ${api.id} from ${api.openApiPath ?? api.basePath}`);
+        return false;
+      }
+      seen.add(api.id);
+      return true;
+    });
+  const issuerIds = new Set(apis.filter(api => api.issuer).map(api => api.id));
+  return {
+    apis: apis.filter(api => {
+      const issuerApi = api.auth.jwt?.issuerApi;
+      if (!issuerApi || issuerIds.has(issuerApi)) {
+        return true;
+      }
+      const message = `auth.jwt.issuerApi references ${issuerApi}, which is not a loaded issuer API`;
+      log('error', `Skipping ${api.id}: ${message}`);
+      invalidApis.push({ id: api.id, basePath: api.basePath, error: message, errors: [] });
       return false;
-    }
-    seen.add(api.id);
-    return true;
-  });
+    }),
+    invalidApis
+  };
 }
 
-function loadVirtualApisFromRoot(root: string): VirtualApi[] {
+function loadVirtualApisFromRoot(root: string, invalidApis: InvalidApi[]): VirtualApi[] {
   const apisDir = path.join(root, 'apis');
   if (!fs.existsSync(apisDir)) {
     log('warn', `APIs directory not found at ${apisDir}`);
@@ -793,49 +1912,211 @@ function loadVirtualApisFromRoot(root: string): VirtualApi[] {
 
   log('info', `Found ${entries.length} API folder(s) under ${apisDir}`);
 
-  return entries.map(entry => {
-    const apiId = entry.name;
-    const apiDir = path.join(apisDir, apiId);
-    log('debug', `Loading API ${apiId} from ${apiDir}`);
+  return entries.flatMap(entry => {
+    try {
+      return [loadVirtualApi(apisDir, entry.name)];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log('error', `Skipping ${entry.name}: ${message}`);
+      invalidApis.push({
+        id: entry.name,
+        basePath: guessBasePath(path.join(apisDir, entry.name), entry.name),
+        error: message,
+        errors: error instanceof HandlersValidationError ? error.issues : []
+      });
+      return [];
+    }
+  });
+}
 
-    const openApiPath = resolveFirstExisting(apiDir, ['openapi.yaml', 'openapi.yml']);
-    if (!openApiPath) {
-      log('error', `Missing openapi.yaml in ${apiDir}`);
-      throw new Error(`Missing openapi.yaml in ${apiDir}`);
+function guessBasePath(apiDir: string, apiId: string): string {
+  const read = (candidates: string[]): any => {
+    const filePath = resolveFirstExisting(apiDir, candidates);
+    try {
+      return filePath ? parseYaml(fs.readFileSync(filePath, 'utf8')) : undefined;
+    } catch (_error) {
+      return undefined;
     }
+  };
+  const explicit = read(['handlers.yaml', 'handlers.yml'])?.api?.basePath;
+  return resolveBasePath(
+    apiId,
+    typeof explicit === 'string' ? explicit : undefined,
+    read(['openapi.yaml', 'openapi.yml'])
+  );
+}
 
-    log('debug', `OpenAPI: ${openApiPath}`);
+function loadVirtualApi(apisDir: string, apiId: string): VirtualApi {
+  const apiDir = path.join(apisDir, apiId);
+  log('debug', `Loading API ${apiId} from ${apiDir}`);
 
-    const openApi = parseYamlFile<any>(openApiPath);
-    const handlersBundle = loadHandlersBundle(apiDir, apiId);
+  const openApiPath = resolveFirstExisting(apiDir, ['openapi.yaml', 'openapi.yml']);
+  const handlersBundle = loadHandlersBundle(apiDir, apiId);
+  const graphqlConfig = handlersBundle.api?.graphql;
+  const graphqlSchemaPath = resolveFirstExisting(
+    apiDir,
+    graphqlConfig?.schema ? [graphqlConfig.schema] : GRAPHQL_SCHEMA_FILES
+  );
+  if (graphqlConfig && !graphqlSchemaPath) {
+    log('error', `Missing GraphQL schema in ${apiDir}`);
+    throw new Error(`Missing ${graphqlConfig.schema ?? 'schema.graphql'} in ${apiDir}`);
+  }
+  const graphql =
+    graphqlSchemaPath && (graphqlConfig || !openApiPath)
+      ? loadGraphqlApi(graphqlSchemaPath, graphqlConfig ?? {}, handlersBundle.resolvers)
+      : undefined;
+  if (!graphql && Object.keys(handlersBundle.resolvers).length > 0) {
+    log('warn', `Ignoring GraphQL resolvers in ${apiDir}: no GraphQL schema`);
+  }
+  if (!openApiPath && !handlersBundle.api?.issuer && !graphql) {
+    log('error', `Missing openapi.yaml in ${apiDir}`);
+    throw new Error(`Missing openapi.yaml in ${apiDir}`);
+  }
 
-    if (handlersBundle.sources.primary) {
-      log('debug', `Handlers: ${handlersBundle.sources.primary}`);
-    }
-    if (handlersBundle.sources.extras.length > 0) {
-      log('debug', `Extra handlers: ${handlersBundle.sources.extras.join(', ')}`);
-    }
+  log('debug', `OpenAPI: ${openApiPath ?? (graphql ? '(generated for GraphQL)' : '(generated for issuer)')}`);
+
+  const generatedName = handlersBundle.api?.name ?? `Virtual API ${apiId}`;
+  const openApi = openApiPath
+    ? parseYamlFile<any>(openApiPath)
+    : graphql
+      ? buildGraphqlOpenApi(generatedName, resolveBasePath(apiId, handlersBundle.api?.basePath), graphql.path)
+      : buildIssuerOpenApi(generatedName, resolveBasePath(apiId, handlersBundle.api?.basePath));
+  if (graphql && openApiPath) {
+    openApi.paths = { ...buildGraphqlPaths(graphql.path), ...openApi.paths };
+  }
 
-    const basePath = resolveBasePath(apiId, handlersBundle.api?.basePath, openApi);
-    const name =
-      handlersBundle.api?.name ??
-      openApi?.info?.title ??
-      `Virtual API ${apiId}`;
+  if (handlersBundle.sources.primary) {
+    log('debug', `Handlers: ${handlersBundle.sources.primary}`);
+  }
+  if (handlersBundle.sources.extras.length > 0) {
+    log('debug', `Extra handlers: ${handlersBundle.sources.extras.join(', ')}`);
+  }
+
+  const basePath = resolveBasePath(apiId, handlersBundle.api?.basePath, openApi);
+  const name =
+    handlersBundle.api?.name ??
+    openApi?.info?.title ??
+    `Virtual API ${apiId}`;
+
+  const handlers = normalizeHandlers([
+    ...(handlersBundle.routes ?? []),
+    ...(graphql ? buildGraphqlRoutes(graphql.path, handlersBundle.routes ?? []) : [])
+  ]);
+  const faults = handlersBundle.api?.faults ?? {};
+  const scenarios = handlersBundle.api?.scenarios ?? {};
+  const referenceIssues: ConfigIssue[] = [];
+  [faults.active, ...handlers.map(handler => handler.faults)].forEach(reference => {
+    if (typeof reference === 'string' && !faults.profiles?.[reference]) {
+      referenceIssues.push({
+        file: handlersBundle.sources.primary ?? apiDir,
+        path: 'faults',
+        message: `unknown fault profile "${reference}"`
+      });
+    }
+  });
+  if (scenarios.active && !scenarios.definitions?.[scenarios.active]) {
+    referenceIssues.push({
+      file: handlersBundle.sources.primary ?? apiDir,
+      path: 'api.scenarios.active',
+      message: `unknown scenario "${scenarios.active}"`
+    });
+  }
+  if (referenceIssues.length > 0) {
+    referenceIssues.forEach(issue => log('error', formatIssue(issue)));
+    throw new HandlersValidationError(apiId, referenceIssues);
+  }
+  Object.entries(scenarios.definitions ?? {}).forEach(([scenarioName, definition]) => {
+    (definition.routes ?? []).forEach(route => {
+      const exists = handlers.some(
+        handler =>
+          handler.method.toUpperCase() === route.method.toUpperCase() && handler.path === route.path
+      );
+      if (!exists) {
+        log('warn', `Scenario ${scenarioName} in ${apiId} targets undeclared route ${route.method} ${route.path}`);
+      }
+    });
+  });
 
-    const handlers = normalizeHandlers(handlersBundle.routes ?? []);
+  log('info', `Loaded ${apiId} (${handlers.length} route(s)) at ${basePath}`);
 
-    log('info', `Loaded ${apiId} (${handlers.length} route(s)) at ${basePath}`);
+  return {
+    id: apiId,
+    name,
+    description: handlersBundle.api?.description ?? openApi?.info?.description,
+    basePath,
+    dir: apiDir,
+    openApiPath: openApiPath ?? undefined,
+    openApi,
+    handlers,
+    validation: handlersBundle.api?.validation ?? {},
+    response: {
+      ...handlersBundle.api?.response,
+      mock: handlersBundle.api?.response?.mock ?? OPENAPI_MOCK_ENABLED
+    },
+    upstream: handlersBundle.api?.upstream,
+    faults,
+    scenarios,
+    auth: handlersBundle.api?.auth ?? {},
+    issuer: handlersBundle.api?.issuer,
+    cors: handlersBundle.api?.cors,
+    compression: handlersBundle.api?.compression,
+    graphql
+  };
+}
 
-    return {
-      id: apiId,
-      name,
-      description: handlersBundle.api?.description ?? openApi?.info?.description,
-      basePath,
-      openApiPath,
-      openApi,
-      handlers
-    };
+function loadGraphqlApi(
+  schemaPath: string,
+  config: ApiGraphqlConfig,
+  resolvers: Record<string, GraphqlResolverDefinition>
+): VirtualApi['graphql'] {
+  log('debug', `GraphQL schema: ${schemaPath}`);
+  const schema = buildSchema(fs.readFileSync(schemaPath, 'utf8'));
+  assertValidSchema(schema);
+  const unknownResolvers = Object.keys(resolvers).filter(key => {
+    const [typeName, fieldName] = key.split('.');
+    const type = schema.getType(typeName);
+    return !isObjectType(type) || !type.getFields()[fieldName];
+  });
+  if (unknownResolvers.length > 0) {
+    throw new Error(`Resolvers target unknown fields: ${unknownResolvers.join(', ')}`);
+  }
+  Object.entries(resolvers).forEach(([key, definition]) => {
+    if (
+      definition.workflow === undefined &&
+      definition.handler === undefined &&
+      definition.value === undefined &&
+      definition.valueTemplate === undefined
+    ) {
+      throw new Error(`Resolver ${key} needs one of workflow, handler, value or valueTemplate`);
+    }
+    if (definition.handler !== undefined) {
+      try {
+        resolveHandlerPath(parseHandlerId(definition.handler).moduleId);
+      } catch (error) {
+        throw new Error(`Resolver ${key}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
   });
+  return {
+    schema,
+    schemaPath,
+    path: config.path ?? '/graphql',
+    mock: config.mock ?? true,
+    graphiql: config.graphiql ?? true,
+    resolvers
+  };
+}
+
+function buildGraphqlRoutes(endpoint: string, declared: HandlerDefinition[]): HandlerDefinition[] {
+  return ['get', 'post']
+    .filter(
+      method => !declared.some(route => route.method.toLowerCase() === method && route.path === endpoint)
+    )
+    .map(method => ({ method, path: endpoint, graphql: true }));
+}
+
+function packageRoot(name: string): string {
+  return path.dirname(require.resolve(`${name}/package.json`));
 }
 
 function resolveResourcesRoots(): string[] {
@@ -850,6 +2131,10 @@ function resolveResourcesRoots(): string[] {
     .map(item => path.resolve(item));
 }
 
+function queryString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
 function parseCsvEnv(value?: string): string[] {
   if (!value) {
     return [];
@@ -860,21 +2145,44 @@ function parseCsvEnv(value?: string): string[] {
     .filter(Boolean);
 }
 
+/** Parses OTEL-style `key=value,key2=value2` lists (values may be URL-encoded). */
+function parseKeyValueEnv(value?: string): Record<string, string> {
+  return parseCsvEnv(value).reduce<Record<string, string>>((acc, item) => {
+    const separator = item.indexOf('=');
+    if (separator > 0) {
+      const key = item.slice(0, separator).trim();
+      const raw = item.slice(separator + 1).trim();
+      try {
+        acc[key] = decodeURIComponent(raw);
+      } catch (_error) {
+        acc[key] = raw;
+      }
+    }
+    return acc;
+  }, {});
+}
+
 function loadHandlersBundle(apiDir: string, apiId: string): {
   api?: ApiMetadata;
   routes: HandlerDefinition[];
+  resolvers: Record<string, GraphqlResolverDefinition>;
   sources: { primary?: string; extras: string[] };
 } {
   const handlersPath = resolveFirstExisting(apiDir, ['handlers.yaml', 'handlers.yml']);
+  const reports: HandlersFileReport<HandlersFile>[] = [];
   let handlersFile: HandlersFile | null = null;
 
   if (handlersPath) {
-    handlersFile = parseYamlFile<HandlersFile>(handlersPath);
+    const report = loadHandlersFile<HandlersFile>(handlersPath);
+    reports.push(report);
+    handlersFile = report.value;
   }
 
   const handlersDir = path.join(apiDir, 'handlers');
   const extras: string[] = [];
   const extraRoutes: HandlerDefinition[] = [];
+  const resolvers: Record<string, GraphqlResolverDefinition> = { ...handlersFile?.resolvers };
+  const resolverIssues: ConfigIssue[] = [];
 
   if (fs.existsSync(handlersDir)) {
     const files = fs
@@ -884,7 +2192,9 @@ function loadHandlersBundle(apiDir: string, apiId: string): {
 
     files.forEach(file => {
       const filePath = path.join(handlersDir, file);
-      const parsed = parseYamlFile<HandlersFile>(filePath);
+      const report = loadHandlersFile<HandlersFile>(filePath);
+      reports.push(report);
+      const parsed = report.value ?? { routes: [] };
       if (parsed.api) {
         log(
           'warn',
@@ -894,18 +2204,42 @@ function loadHandlersBundle(apiDir: string, apiId: string): {
       if (parsed.routes && parsed.routes.length > 0) {
         extraRoutes.push(...parsed.routes);
       }
+      Object.entries(parsed.resolvers ?? {}).forEach(([field, resolver]) => {
+        if (resolvers[field]) {
+          const position = report.locate(['resolvers', field]);
+          resolverIssues.push({
+            file: filePath,
+            line: position?.line,
+            column: position?.column,
+            path: `resolvers.${field}`,
+            message: `duplicate resolver ${field}`
+          });
+        }
+        resolvers[field] = resolver;
+      });
       extras.push(filePath);
     });
   }
 
-  if (!handlersPath && extraRoutes.length === 0) {
+  if (!handlersPath && extraRoutes.length === 0 && OPENAPI_MOCK_ENABLED) {
+    log('info', `No handlers in ${apiDir}, serving ${apiId} from OpenAPI mocks`);
+  } else if (!handlersPath && extraRoutes.length === 0 && resolveFirstExisting(apiDir, GRAPHQL_SCHEMA_FILES)) {
+    log('info', `No handlers in ${apiDir}, serving ${apiId} from its GraphQL schema`);
+  } else if (!handlersPath && extraRoutes.length === 0) {
     log('error', `Missing handlers.yaml or handlers/ in ${apiDir}`);
     throw new Error(`Missing handlers.yaml or handlers/ in ${apiDir}`);
   }
 
+  const issues = [...reports.flatMap(report => report.issues), ...findDuplicateRoutes(reports), ...resolverIssues];
+  if (issues.length > 0) {
+    issues.forEach(issue => log('error', formatIssue(issue)));
+    throw new HandlersValidationError(apiId, issues);
+  }
+
   return {
     api: handlersFile?.api,
     routes: [...(handlersFile?.routes ?? []), ...extraRoutes],
+    resolvers,
     sources: {
       primary: handlersPath ?? undefined,
       extras
@@ -1059,23 +2393,244 @@ function resolveHandlerPath(handlerId: string): string {
 function normalizeHandlerResult(result: unknown): HandlerResult {
   if (result && typeof result === 'object') {
     const maybe = result as HandlerResult;
-    if ('status' in maybe || 'headers' in maybe || 'body' in maybe) {
+    if ('status' in maybe || 'headers' in maybe || 'body' in maybe || 'file' in maybe) {
       return maybe;
     }
   }
   return { body: result };
 }
 
-function sendResponseBody(res: Response, status: number, body: unknown) {
-  if (body === undefined) {
+async function respondGraphql(
+  api: VirtualApi,
+  graphql: NonNullable<VirtualApi['graphql']>,
+  context: HandlerContext,
+  vars: Record<string, unknown>
+) {
+  const { req, res } = context;
+  if (
+    req.method === 'GET' &&
+    graphql.graphiql &&
+    req.query.query === undefined &&
+    req.accepts(['json', 'html']) === 'html'
+  ) {
+    res.type('html').send(renderGraphiql(api.name, apiUrl(api.basePath, graphql.path)));
+    return;
+  }
+  try {
+    const request = readGraphqlRequest(
+      req.method,
+      req.query as Record<string, unknown>,
+      context.body,
+      context.rawBody,
+      req.headers['content-type']
+    );
+    const result = await executeGraphql(graphql.schema, request, {
+      resolvers: createGraphqlResolvers(api, graphql, context, vars),
+      mock: graphql.mock,
+      allowMutations: req.method !== 'GET'
+    });
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof GraphqlRequestError) {
+      if (error.status === 405) {
+        res.setHeader('Allow', 'POST');
+      }
+      res.status(error.status).json({ errors: error.errors });
+      return;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    log('error', `GraphQL execution failed for ${api.id}: ${message}`);
+    if (!res.headersSent) {
+      res.status(500).json({ errors: [{ message }] });
+    }
+  }
+}
+
+/**
+ * Wraps the configured `Type.field` resolvers so each call runs with the
+ * request context plus the field arguments as `params` and `graphql.*`.
+ */
+function createGraphqlResolvers(
+  api: VirtualApi,
+  graphql: NonNullable<VirtualApi['graphql']>,
+  context: HandlerContext,
+  vars: Record<string, unknown>
+): Record<string, GraphqlFieldResolver> {
+  const resolvers: Record<string, GraphqlFieldResolver> = {};
+  Object.entries(graphql.resolvers).forEach(([key, definition]) => {
+    resolvers[key] = async info => {
+      const fieldContext: HandlerContext = { ...context, params: info.args as HandlerContext['params'], graphql: info };
+      if (definition.value !== undefined) {
+        return definition.value;
+      }
+      if (definition.valueTemplate !== undefined) {
+        return applyTemplate(definition.valueTemplate, { ...fieldContext, vars });
+      }
+      let result: HandlerResult;
+      try {
+        result = definition.workflow
+          ? await executeWorkflow(definition.workflow, fieldContext, vars)
+          : normalizeHandlerResult(await loadHandler(definition.handler as string)(fieldContext));
+      } catch (error) {
+        if (error instanceof WorkflowHttpError) {
+          result = { status: error.status, body: error.body };
+        } else {
+          const message = error instanceof Error ? error.message : String(error);
+          log('error', `Resolver ${key} failed for ${api.id}: ${message}`);
+          throw error;
+        }
+      }
+      const status = result.status ?? 200;
+      if (status >= 400) {
+        const message = asString(asRecord(result.body).message, `Resolver ${key} failed with status ${status}`);
+        throw new GraphqlFieldError(message, { code: `HTTP_${status}`, status, body: result.body });
+      }
+      return result.body;
+    };
+  });
+  return resolvers;
+}
+
+function openRouteStream(
+  api: VirtualApi,
+  handler: HandlerDefinition,
+  stream: StreamDefinition,
+  context: HandlerContext,
+  vars: Record<string, unknown>
+) {
+  const { req, res } = context;
+  const templateContext = { ...context, vars };
+  const info = {
+    api: api.id,
+    route: `${handler.method.toUpperCase()} ${handler.path}`,
+    channel: String(applyTemplate(stream.channel ?? handler.path, templateContext)),
+    session: context.meta.session
+  };
+
+  let connection: StreamConnection | null;
+  if (stream.type === 'websocket') {
+    connection = acceptWebSocket(req, res, info);
+    if (!connection) {
+      res.setHeader('Upgrade', 'websocket');
+      res.status(426).json({ message: 'This route expects a WebSocket upgrade' });
+      return;
+    }
+    recordHit(api.id, handler.method, toExpressPath(handler.path), 101);
+  } else {
+    connection = openEventStream(req, res, info, stream.heartbeatMs ?? 15000);
+  }
+  log('debug', `Opened ${connection.info.type} stream ${connection.info.id} on ${api.id} ${info.route}`);
+
+  let last: unknown;
+  const workflow = stream.workflow;
+  const opened = connection;
+  playStream(opened, {
+    timeline: stream.timeline ?? [],
+    repeat: stream.repeat === true ? Infinity : Math.max(1, Number(stream.repeat) || 1),
+    render: (step, position) => ({
+      event: step.event ?? stream.event,
+      id: step.id,
+      data:
+        step.dataTemplate !== undefined
+          ? applyTemplate(step.dataTemplate, {
+              ...templateContext,
+              stream: { ...position, now: new Date().toISOString() }
+            })
+          : step.data
+    }),
+    next: workflow
+      ? async tick => {
+          const result = normalizeHandlerResult(
+            await executeWorkflow(workflow, context, {
+              ...vars,
+              stream: { tick, now: new Date().toISOString(), last }
+            })
+          );
+          if (result.status === 204) {
+            return null;
+          }
+          last = result.body;
+          return { event: stream.event, data: result.body };
+        }
+      : undefined,
+    intervalMs: stream.intervalMs ?? 1000,
+    maxMessages: stream.maxMessages ?? Infinity,
+    closeWhenDone: stream.closeWhenDone === true
+  }).catch(error => {
+    const message = error instanceof Error ? error.message : String(error);
+    log('error', `Stream ${info.route} for ${api.id} failed: ${message}`);
+    opened.close();
+  });
+}
+
+function sendHandlerResult(
+  req: Request,
+  res: Response,
+  result: HandlerResult,
+  api: VirtualApi,
+  operation: OpenApiOperation | null
+) {
+  const status = result.status ?? 200;
+  const headers = result.headers ?? {};
+  Object.entries(headers).forEach(([key, value]) => res.setHeader(key, value));
+  if (result.filename) {
+    res.setHeader('Content-Disposition', formatAttachment(result.filename));
+  }
+  if (result.file) {
+    sendResponseFile(res, status, api, result.file);
+    return;
+  }
+  if (result.body === undefined) {
     res.status(status).end();
     return;
   }
-  if (Buffer.isBuffer(body) || typeof body === 'string') {
-    res.status(status).send(body);
+
+  const body =
+    result.encoding === 'base64' && typeof result.body === 'string'
+      ? Buffer.from(result.body, 'base64')
+      : result.body;
+  const explicitType = res.getHeader('Content-Type');
+  const mediaType = explicitType
+    ? String(explicitType)
+    : negotiateMediaType(req.headers.accept, listResponseMediaTypes(api.openApi, operation, status));
+  if (!mediaType) {
+    if (Buffer.isBuffer(body) || typeof body === 'string') {
+      res.status(status).send(body);
+      return;
+    }
+    res.status(status).json(body);
+    return;
+  }
+  if (!explicitType) {
+    res.vary('Accept');
+    res.type(mediaType);
+  }
+  res.status(status).send(renderBody(body, mediaType));
+}
+
+function sendResponseFile(res: Response, status: number, api: VirtualApi, file: string) {
+  const root = path.resolve(api.dir);
+  const filePath = path.resolve(root, file);
+  if (!filePath.startsWith(`${root}${path.sep}`)) {
+    res.status(500).json({ message: `Response file ${file} is outside the API directory` });
+    return;
+  }
+  if (!fs.existsSync(filePath)) {
+    res.status(500).json({ message: `Response file not found: ${file}` });
     return;
   }
-  res.status(status).json(body);
+  res.status(status).sendFile(filePath, error => {
+    if (error && !res.headersSent) {
+      res.status(500).json({ message: 'Failed to send response file', error: error.message });
+    }
+  });
+}
+
+function formatAttachment(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return fallback === filename
+    ? `attachment; filename="${filename}"`
+    : `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
 }
 
 function isRecord(value: unknown): value is Record<string, unknown> {
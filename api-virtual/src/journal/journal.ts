@@ -0,0 +1,205 @@
+import type { NextFunction, Request, Response } from 'express';
+
+export interface JournalEntry {
+  id: string;
+  requestId?: string;
+  timestamp: string;
+  method: string;
+  path: string;
+  url: string;
+  apiId?: string;
+  route?: string;
+  handlerType?: string;
+  session?: string;
+  request: {
+    headers: Record<string, unknown>;
+    query: Record<string, unknown>;
+    body: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, unknown>;
+    body: unknown;
+    truncated: boolean;
+  };
+  durationMs: number;
+}
+
+export interface JournalOptions {
+  limit: number;
+  bodyLimitBytes: number;
+  ignorePrefixes: string[];
+}
+
+export interface JournalFilter {
+  api?: string;
+  method?: string;
+  path?: string;
+  route?: string;
+  status?: number;
+  requestId?: string;
+  session?: string;
+  since?: string;
+}
+
+const entries: JournalEntry[] = [];
+let sequence = 0;
+let maxEntries = 500;
+
+export function journalMiddleware(options: JournalOptions) {
+  maxEntries = Math.max(1, options.limit);
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (options.ignorePrefixes.some(prefix => req.path.startsWith(prefix))) {
+      next();
+      return;
+    }
+    const start = process.hrtime.bigint();
+    const timestamp = new Date().toISOString();
+    const path = req.path;
+    const url = req.originalUrl;
+    const chunks: Buffer[] = [];
+    let captured = 0;
+    let truncated = false;
+
+    const capture = (chunk: unknown, encoding?: unknown) => {
+      if (chunk === undefined || chunk === null || typeof chunk === 'function') {
+        return;
+      }
+      const buffer = Buffer.isBuffer(chunk)
+        ? chunk
+        : Buffer.from(String(chunk), typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8');
+      const remaining = options.bodyLimitBytes - captured;
+      if (remaining <= 0) {
+        truncated = truncated || buffer.length > 0;
+        return;
+      }
+      if (buffer.length > remaining) {
+        truncated = true;
+      }
+      const slice = buffer.subarray(0, remaining);
+      chunks.push(slice);
+      captured += slice.length;
+    };
+
+    const originalWrite = res.write.bind(res);
+    const originalEnd = res.end.bind(res);
+    res.write = ((chunk: unknown, ...args: unknown[]) => {
+      capture(chunk, args[0]);
+      return (originalWrite as (...params: unknown[]) => boolean)(chunk, ...args);
+    }) as Response['write'];
+    res.end = ((chunk?: unknown, ...args: unknown[]) => {
+      capture(chunk, args[0]);
+      return (originalEnd as (...params: unknown[]) => Response)(chunk, ...args);
+    }) as Response['end'];
+
+    res.on('finish', () => {
+      const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+      // Per-API compression runs inside this wrapper; journal what the handler sent.
+      if (Buffer.isBuffer(res.locals.uncompressedBody)) {
+        chunks.length = 0;
+        captured = 0;
+        truncated = false;
+        capture(res.locals.uncompressedBody);
+      }
+      recordEntry({
+        id: String(++sequence),
+        requestId: asOptionalString(res.locals.requestId),
+        timestamp,
+        method: req.method,
+        path,
+        url,
+        apiId: asOptionalString(res.locals.apiId),
+        route: asOptionalString(res.locals.routePath),
+        handlerType: asOptionalString(res.locals.handlerType),
+        session: asOptionalString(res.locals.session),
+        request: {
+          headers: { ...req.headers },
+          query: { ...(req.query as Record<string, unknown>) },
+          body: req.body
+        },
+        response: {
+          status: res.statusCode,
+          headers: { ...res.getHeaders() },
+          body: decodeBody(Buffer.concat(chunks), String(res.getHeader('content-type') ?? ''), truncated),
+          truncated
+        },
+        durationMs: Number(durationMs.toFixed(2))
+      });
+    });
+
+    next();
+  };
+}
+
+export function listEntries(filter: JournalFilter = {}): JournalEntry[] {
+  const since = filter.since ? Date.parse(filter.since) : NaN;
+  const method = filter.method?.toUpperCase();
+  const matches = entries.filter(entry => {
+    if (filter.api && entry.apiId !== filter.api) {
+      return false;
+    }
+    if (method && entry.method !== method) {
+      return false;
+    }
+    if (filter.path && !entry.path.startsWith(filter.path)) {
+      return false;
+    }
+    if (filter.route && entry.route !== filter.route) {
+      return false;
+    }
+    if (filter.status !== undefined && entry.response.status !== filter.status) {
+      return false;
+    }
+    if (filter.requestId && entry.requestId !== filter.requestId) {
+      return false;
+    }
+    if (filter.session && entry.session !== filter.session) {
+      return false;
+    }
+    if (!Number.isNaN(since) && Date.parse(entry.timestamp) < since) {
+      return false;
+    }
+    return true;
+  });
+  return matches.reverse();
+}
+
+export function getEntry(id: string): JournalEntry | undefined {
+  return entries.find(entry => entry.id === id || entry.requestId === id);
+}
+
+export function clearEntries(): number {
+  const removed = entries.length;
+  entries.length = 0;
+  return removed;
+}
+
+function recordEntry(entry: JournalEntry): void {
+  entries.push(entry);
+  if (entries.length > maxEntries) {
+    entries.splice(0, entries.length - maxEntries);
+  }
+}
+
+function decodeBody(buffer: Buffer, contentType: string, truncated: boolean): unknown {
+  if (buffer.length === 0) {
+    return undefined;
+  }
+  const isText = /json|text|xml|csv|yaml|javascript|x-www-form-urlencoded/i.test(contentType);
+  if (!isText) {
+    return `<${buffer.length} byte(s) ${contentType || 'binary'}>`;
+  }
+  const text = buffer.toString('utf8');
+  if (!truncated && /json/i.test(contentType)) {
+    try {
+      return JSON.parse(text) as unknown;
+    } catch (_error) {
+      return text;
+    }
+  }
+  return text;
+}
+
+function asOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
@@ -0,0 +1,269 @@
+import { listEntries, type JournalEntry } from './journal';
+
+export interface VerifyMatcher {
+  api?: string;
+  method?: string;
+  path?: string;
+  status?: number;
+  session?: string;
+  query?: Record<string, unknown>;
+  headers?: Record<string, unknown>;
+  body?: Record<string, unknown>;
+  since?: string;
+  count?: VerifyCount;
+}
+
+export interface VerifyCount {
+  exactly?: number;
+  atLeast?: number;
+  atMost?: number;
+  never?: boolean;
+}
+
+export interface VerifyResult {
+  passed: boolean;
+  expected: VerifyCount;
+  actual: number;
+  matches: string[];
+  nearest: Array<{
+    id: string;
+    method: string;
+    path: string;
+    route?: string;
+    status: number;
+    mismatches: string[];
+  }>;
+}
+
+export class VerifyInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VerifyInputError';
+  }
+}
+
+const NEAREST_LIMIT = 5;
+
+export function verifyRequests(raw: unknown): VerifyResult {
+  const matcher = parseMatcher(raw);
+  const patterns = compilePatterns(matcher);
+  const expected = matcher.count ?? { atLeast: 1 };
+  const evaluated = listEntries({ since: matcher.since, session: matcher.session })
+    .reverse()
+    .map(entry => ({ entry, mismatches: evaluateEntry(matcher, entry, patterns) }));
+  const matches = evaluated.filter(item => item.mismatches.length === 0);
+  const passed = satisfiesCount(expected, matches.length);
+  const nearest = passed
+    ? []
+    : evaluated
+        .filter(item => item.mismatches.length > 0)
+        .sort((a, b) => a.mismatches.length - b.mismatches.length)
+        .slice(0, NEAREST_LIMIT)
+        .map(item => ({
+          id: item.entry.id,
+          method: item.entry.method,
+          path: item.entry.path,
+          route: item.entry.route,
+          status: item.entry.response.status,
+          mismatches: item.mismatches
+        }));
+
+  return {
+    passed,
+    expected,
+    actual: matches.length,
+    matches: matches.map(item => item.entry.id),
+    nearest
+  };
+}
+
+function parseMatcher(raw: unknown): VerifyMatcher {
+  if (!isRecord(raw)) {
+    throw new VerifyInputError('Verify body must be a JSON object');
+  }
+  const count = raw.count;
+  if (count !== undefined) {
+    if (!isRecord(count)) {
+      throw new VerifyInputError('count must be an object with exactly, atLeast, atMost or never');
+    }
+    const known = ['exactly', 'atLeast', 'atMost', 'never'];
+    const unknown = Object.keys(count).filter(key => !known.includes(key));
+    if (unknown.length > 0 || Object.keys(count).length === 0) {
+      throw new VerifyInputError(`count supports ${known.join(', ')}`);
+    }
+    ['exactly', 'atLeast', 'atMost'].forEach(key => {
+      const value = count[key];
+      if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+        throw new VerifyInputError(`count.${key} must be a non-negative integer`);
+      }
+    });
+    if (count.never !== undefined && typeof count.never !== 'boolean') {
+      throw new VerifyInputError('count.never must be a boolean');
+    }
+  }
+  ['api', 'method', 'path', 'session', 'since'].forEach(key => {
+    if (raw[key] !== undefined && typeof raw[key] !== 'string') {
+      throw new VerifyInputError(`${key} must be a string`);
+    }
+  });
+  ['query', 'headers', 'body'].forEach(key => {
+    if (raw[key] !== undefined && !isRecord(raw[key])) {
+      throw new VerifyInputError(`${key} must be an object of field predicates`);
+    }
+  });
+  return raw as VerifyMatcher;
+}
+
+/** Compiles every `matches` predicate once so a bad pattern is a 400, not a crash mid-scan. */
+function compilePatterns(matcher: VerifyMatcher): Map<string, RegExp> {
+  const patterns = new Map<string, RegExp>();
+  (['query', 'headers', 'body'] as const).forEach(scope => {
+    Object.entries(matcher[scope] ?? {}).forEach(([pathValue, expected]) => {
+      if (!isRecord(expected) || !isOperator(expected) || expected.matches === undefined) {
+        return;
+      }
+      const source = String(expected.matches);
+      try {
+        patterns.set(source, new RegExp(source));
+      } catch (error) {
+        throw new VerifyInputError(
+          `${scope}.${pathValue}.matches is not a valid pattern: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+  });
+  return patterns;
+}
+
+function satisfiesCount(expected: VerifyCount, actual: number): boolean {
+  if (expected.never) {
+    return actual === 0;
+  }
+  if (expected.exactly !== undefined && actual !== expected.exactly) {
+    return false;
+  }
+  if (expected.atLeast !== undefined && actual < expected.atLeast) {
+    return false;
+  }
+  if (expected.atMost !== undefined && actual > expected.atMost) {
+    return false;
+  }
+  return true;
+}
+
+function evaluateEntry(matcher: VerifyMatcher, entry: JournalEntry, patterns: Map<string, RegExp>): string[] {
+  const mismatches: string[] = [];
+  if (matcher.api && entry.apiId !== matcher.api) {
+    mismatches.push(`api: expected ${matcher.api}, got ${entry.apiId ?? '-'}`);
+  }
+  if (matcher.method && entry.method !== matcher.method.toUpperCase()) {
+    mismatches.push(`method: expected ${matcher.method.toUpperCase()}, got ${entry.method}`);
+  }
+  if (matcher.path && !matchesPath(matcher.path, entry)) {
+    mismatches.push(`path: expected ${matcher.path}, got ${entry.route ?? entry.path}`);
+  }
+  if (matcher.status !== undefined && entry.response.status !== Number(matcher.status)) {
+    mismatches.push(`status: expected ${matcher.status}, got ${entry.response.status}`);
+  }
+  mismatches.push(...evaluatePredicates('query', matcher.query, entry.request.query, patterns));
+  mismatches.push(...evaluatePredicates('headers', lowerCaseKeys(matcher.headers), entry.request.headers, patterns));
+  mismatches.push(...evaluatePredicates('body', matcher.body, entry.request.body, patterns));
+  return mismatches;
+}
+
+function matchesPath(template: string, entry: JournalEntry): boolean {
+  if (entry.route === template) {
+    return true;
+  }
+  const pattern = template
+    .split(/{[^}]+}/)
+    .map(part => part.replace(/[.*+?^$()|[\]\\]/g, '\\$&'))
+    .join('[^/]+');
+  return new RegExp(`^${pattern}$`).test(entry.path);
+}
+
+function evaluatePredicates(
+  scope: string,
+  predicates: Record<string, unknown> | undefined,
+  source: unknown,
+  patterns: Map<string, RegExp>
+): string[] {
+  if (!predicates) {
+    return [];
+  }
+  return Object.entries(predicates)
+    .map(([pathValue, expected]) => {
+      const actual = getByPath(source, pathValue);
+      return matchesPredicate(expected, actual, patterns)
+        ? ''
+        : `${scope}.${pathValue}: expected ${describe(expected)}, got ${describe(actual)}`;
+    })
+    .filter(Boolean);
+}
+
+function matchesPredicate(expected: unknown, actual: unknown, patterns: Map<string, RegExp>): boolean {
+  if (isRecord(expected) && isOperator(expected)) {
+    if (expected.exists !== undefined && (actual !== undefined) !== Boolean(expected.exists)) {
+      return false;
+    }
+    if (expected.equals !== undefined && !looselyEqual(expected.equals, actual)) {
+      return false;
+    }
+    if (expected.contains !== undefined && !contains(actual, expected.contains)) {
+      return false;
+    }
+    if (expected.matches !== undefined && !patterns.get(String(expected.matches))?.test(String(actual ?? ''))) {
+      return false;
+    }
+    return true;
+  }
+  return looselyEqual(expected, actual);
+}
+
+function isOperator(value: Record<string, unknown>): boolean {
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(key => ['exists', 'equals', 'contains', 'matches'].includes(key));
+}
+
+function looselyEqual(expected: unknown, actual: unknown): boolean {
+  if (expected === null || typeof expected !== 'object') {
+    return actual !== undefined && actual !== null
+      ? String(actual) === String(expected)
+      : actual === expected;
+  }
+  return JSON.stringify(expected) === JSON.stringify(actual);
+}
+
+function contains(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(actual)) {
+    return actual.some(item => looselyEqual(expected, item));
+  }
+  return String(actual ?? '').includes(String(expected));
+}
+
+function getByPath(source: unknown, pathValue: string): unknown {
+  return pathValue
+    .split('.')
+    .filter(Boolean)
+    .reduce<unknown>((acc, part) => {
+      if (Array.isArray(acc)) {
+        return acc[Number(part)];
+      }
+      return isRecord(acc) ? acc[part] : undefined;
+    }, source);
+}
+
+function lowerCaseKeys(source: Record<string, unknown> | undefined): Record<string, unknown> | undefined {
+  if (!source) {
+    return undefined;
+  }
+  return Object.fromEntries(Object.entries(source).map(([key, value]) => [key.toLowerCase(), value]));
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,182 @@
+type Labels = Record<string, string>;
+
+interface CounterSeries {
+  labels: Labels;
+  value: number;
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'histogram';
+  buckets?: number[];
+  series: Map<string, CounterSeries | HistogramSeries>;
+}
+
+const REQUEST_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const ACTION_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const RESOURCE_BACKENDS: Array<{ prefix: string; backend: string; defaultResource: string }> = [
+  { prefix: 'mysql.', backend: 'mysql', defaultResource: 'mysql' },
+  { prefix: 'stub.', backend: 'mysql', defaultResource: 'stubRuntimeMysql' },
+  { prefix: 'virtual.state.', backend: 'mongo', defaultResource: 'virtualStateMongo' },
+  { prefix: 'opensearch.', backend: 'opensearch', defaultResource: 'opensearch' }
+];
+
+const families = new Map<string, MetricFamily>();
+const startedAt = Date.now();
+
+const requestsTotal = family('virtual_http_requests_total', 'HTTP requests served by virtual APIs.', 'counter');
+const requestDuration = family(
+  'virtual_http_request_duration_seconds',
+  'Time from request start until the response finished.',
+  'histogram',
+  REQUEST_BUCKETS
+);
+const actionsTotal = family('virtual_workflow_actions_total', 'Workflow actions executed.', 'counter');
+const actionDuration = family(
+  'virtual_workflow_action_duration_seconds',
+  'Workflow action execution time.',
+  'histogram',
+  ACTION_BUCKETS
+);
+const resourceErrors = family(
+  'virtual_resource_errors_total',
+  'Failed calls to backing resources (Mongo, MySQL, OpenSearch).',
+  'counter'
+);
+
+export function observeRequest(
+  labels: { api: string; route: string; handler: string; method: string; status: number },
+  seconds: number
+): void {
+  const series = { ...labels, status: String(labels.status) };
+  increment(requestsTotal, series);
+  observe(requestDuration, { api: labels.api, route: labels.route, handler: labels.handler, method: labels.method }, seconds);
+}
+
+/**
+ * Counts an action by outcome and times it. `failedResource` marks a failure
+ * of the backing resource (not a deliberate HTTP error from the workflow), which
+ * is also counted per backend so broken databases stand out.
+ */
+export function observeWorkflowAction(
+  action: string,
+  seconds: number,
+  outcome: 'ok' | 'error',
+  failedResource?: string
+): void {
+  increment(actionsTotal, { action, outcome });
+  observe(actionDuration, { action }, seconds);
+  const backend = RESOURCE_BACKENDS.find(item => action.startsWith(item.prefix));
+  if (outcome === 'error' && backend && failedResource !== undefined) {
+    recordResourceError(backend.backend, failedResource || backend.defaultResource, action);
+  }
+}
+
+export function recordResourceError(backend: string, resource: string, operation: string): void {
+  increment(resourceErrors, { backend, resource, operation });
+}
+
+/** Renders every family in the Prometheus text exposition format (0.0.4). */
+export function renderMetrics(gauges: Array<{ name: string; help: string; value: number; labels?: Labels }> = []): string {
+  const memory = process.memoryUsage();
+  const processGauges = [
+    { name: 'process_start_time_seconds', help: 'Start time of the process since unix epoch in seconds.', value: startedAt / 1000 },
+    { name: 'process_uptime_seconds', help: 'Seconds since the process started.', value: (Date.now() - startedAt) / 1000 },
+    { name: 'process_resident_memory_bytes', help: 'Resident memory size in bytes.', value: memory.rss },
+    { name: 'nodejs_heap_used_bytes', help: 'V8 heap in use in bytes.', value: memory.heapUsed },
+    ...gauges
+  ];
+  const lines: string[] = [];
+  const seen = new Set<string>();
+  processGauges.forEach(gauge => {
+    if (!seen.has(gauge.name)) {
+      seen.add(gauge.name);
+      lines.push(`# HELP ${gauge.name} ${gauge.help}`, `# TYPE ${gauge.name} gauge`);
+    }
+    lines.push(`${gauge.name}${formatLabels(gauge.labels ?? {})} ${formatNumber(gauge.value)}`);
+  });
+
+  families.forEach(item => {
+    lines.push(`# HELP ${item.name} ${item.help}`, `# TYPE ${item.name} ${item.type}`);
+    item.series.forEach(series => {
+      if (!('buckets' in series)) {
+        lines.push(`${item.name}${formatLabels(series.labels)} ${formatNumber(series.value)}`);
+        return;
+      }
+      (item.buckets ?? []).forEach((bound, index) => {
+        lines.push(
+          `${item.name}_bucket${formatLabels({ ...series.labels, le: formatNumber(bound) })} ${series.buckets[index]}`
+        );
+      });
+      lines.push(`${item.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${item.name}_sum${formatLabels(series.labels)} ${formatNumber(series.sum)}`);
+      lines.push(`${item.name}_count${formatLabels(series.labels)} ${series.count}`);
+    });
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+function family(name: string, help: string, type: MetricFamily['type'], buckets?: number[]): MetricFamily {
+  const created: MetricFamily = { name, help, type, buckets, series: new Map() };
+  families.set(name, created);
+  return created;
+}
+
+function increment(target: MetricFamily, labels: Labels, amount = 1): void {
+  const key = seriesKey(labels);
+  const series = (target.series.get(key) as CounterSeries | undefined) ?? { labels, value: 0 };
+  series.value += amount;
+  target.series.set(key, series);
+}
+
+function observe(target: MetricFamily, labels: Labels, value: number): void {
+  const key = seriesKey(labels);
+  const bounds = target.buckets ?? [];
+  const series =
+    (target.series.get(key) as HistogramSeries | undefined) ??
+    { labels, buckets: bounds.map(() => 0), sum: 0, count: 0 };
+  bounds.forEach((bound, index) => {
+    if (value <= bound) {
+      series.buckets[index] += 1;
+    }
+  });
+  series.sum += value;
+  series.count += 1;
+  target.series.set(key, series);
+}
+
+function seriesKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map(key => `${key}=${labels[key]}`)
+    .join('\u0000');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const escaped = entries.map(
+    ([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`
+  );
+  return `{${escaped.join(',')}}`;
+}
+
+function formatNumber(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
@@ -0,0 +1,148 @@
+import { listOperations } from './document';
+
+export interface CoverageRoute {
+  method: string;
+  path: string;
+  type: string;
+}
+
+export interface CoverageSource {
+  id: string;
+  openApi: unknown;
+  routes: CoverageRoute[];
+  fallback?: 'mock' | 'upstream';
+}
+
+export interface RouteHits {
+  hits: number;
+  lastHitAt?: string;
+  statuses: Record<string, number>;
+}
+
+export interface CoverageEntry {
+  method: string;
+  path: string;
+  operationId?: string;
+  status: 'virtualized' | 'fallback' | 'missing' | 'undeclared';
+  implementation?: string;
+  hits: number;
+  lastHitAt?: string;
+  statuses: Record<string, number>;
+}
+
+export interface CoverageReport {
+  api: string;
+  summary: {
+    operations: number;
+    virtualized: number;
+    fallback: number;
+    missing: number;
+    undeclared: number;
+    exercised: number;
+    coveragePercent: number;
+    exercisedPercent: number;
+  };
+  entries: CoverageEntry[];
+}
+
+const routeHits = new Map<string, RouteHits>();
+
+export function recordHit(apiId: string, method: string, expressPath: string, status: number): void {
+  const key = hitKey(apiId, method, expressPath);
+  const current = routeHits.get(key) ?? { hits: 0, statuses: {} };
+  current.hits += 1;
+  current.lastHitAt = new Date().toISOString();
+  current.statuses[String(status)] = (current.statuses[String(status)] ?? 0) + 1;
+  routeHits.set(key, current);
+}
+
+export function clearHits(apiId?: string): void {
+  if (!apiId) {
+    routeHits.clear();
+    return;
+  }
+  [...routeHits.keys()]
+    .filter(key => key.startsWith(`${apiId} `))
+    .forEach(key => routeHits.delete(key));
+}
+
+export function buildCoverageReport(source: CoverageSource): CoverageReport {
+  const routesByKey = new Map(
+    source.routes.map(route => [routeKey(route.method, route.path), route] as const)
+  );
+  const declared = new Set<string>();
+
+  const entries: CoverageEntry[] = listOperations(source.openApi).map(operation => {
+    const key = routeKey(operation.method, operation.path);
+    declared.add(key);
+    const route = routesByKey.get(key);
+    const hits = getHits(source.id, operation.method, operation.path);
+    const status: CoverageEntry['status'] = route
+      ? 'virtualized'
+      : source.fallback
+        ? 'fallback'
+        : 'missing';
+    return {
+      method: operation.method.toUpperCase(),
+      path: operation.path,
+      operationId:
+        typeof operation.operation.operationId === 'string' ? operation.operation.operationId : undefined,
+      status,
+      implementation: route?.type ?? source.fallback,
+      ...hits
+    };
+  });
+
+  source.routes
+    .filter(route => !declared.has(routeKey(route.method, route.path)))
+    .forEach(route => {
+      entries.push({
+        method: route.method.toUpperCase(),
+        path: route.path,
+        status: 'undeclared',
+        implementation: route.type,
+        ...getHits(source.id, route.method, route.path)
+      });
+    });
+
+  const operations = entries.filter(entry => entry.status !== 'undeclared');
+  const count = (status: CoverageEntry['status']) =>
+    entries.filter(entry => entry.status === status).length;
+  const virtualized = count('virtualized');
+  const exercised = operations.filter(entry => entry.hits > 0).length;
+  return {
+    api: source.id,
+    summary: {
+      operations: operations.length,
+      virtualized,
+      fallback: count('fallback'),
+      missing: count('missing'),
+      undeclared: count('undeclared'),
+      exercised,
+      coveragePercent: percent(virtualized, operations.length),
+      exercisedPercent: percent(exercised, operations.length)
+    },
+    entries
+  };
+}
+
+function getHits(apiId: string, method: string, pathTemplate: string): RouteHits {
+  const hits = routeHits.get(hitKey(apiId, method, toExpressPath(pathTemplate)));
+  return hits ? { ...hits, statuses: { ...hits.statuses } } : { hits: 0, statuses: {} };
+}
+
+function hitKey(apiId: string, method: string, expressPath: string): string {
+  return `${apiId} ${method.toUpperCase()} ${expressPath}`;
+}
+
+function routeKey(method: string, pathTemplate: string): string {
+  return `${method.toUpperCase()} ${toExpressPath(pathTemplate)}`;
+}
+
+function percent(part: number, total: number): number {
+  return total === 0 ? 0 : Math.round((part / total) * 1000) / 10;
+}
+
+function toExpressPath(openApiPath: string): string {
+  return openApiPath.replace(/{(.*?)}/g, ':$1');
+}
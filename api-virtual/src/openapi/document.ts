@@ -0,0 +1,167 @@
+export interface OpenApiOperation {
+  method: string;
+  path: string;
+  operation: Record<string, unknown>;
+  parameters: Array<Record<string, unknown>>;
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+export function findOperation(
+  openApi: unknown,
+  method: string,
+  pathTemplate: string
+): OpenApiOperation | null {
+  const paths = asRecord(asRecord(openApi).paths);
+  const pathItem = asRecord(resolveRef(openApi, paths[pathTemplate]));
+  const normalizedMethod = method.toLowerCase();
+  const operation = resolveRef(openApi, pathItem[normalizedMethod]);
+  if (!isRecord(operation)) {
+    return null;
+  }
+  return {
+    method: normalizedMethod,
+    path: pathTemplate,
+    operation,
+    parameters: mergeParameters(openApi, pathItem.parameters, operation.parameters)
+  };
+}
+
+export function listOperations(openApi: unknown): OpenApiOperation[] {
+  const paths = asRecord(asRecord(openApi).paths);
+  const operations: OpenApiOperation[] = [];
+  Object.keys(paths).forEach(pathTemplate => {
+    const pathItem = asRecord(resolveRef(openApi, paths[pathTemplate]));
+    HTTP_METHODS.forEach(method => {
+      if (isRecord(pathItem[method])) {
+        const found = findOperation(openApi, method, pathTemplate);
+        if (found) {
+          operations.push(found);
+        }
+      }
+    });
+  });
+  return operations;
+}
+
+export function matchOperation(
+  openApi: unknown,
+  method: string,
+  concretePath: string
+): { operation: OpenApiOperation; params: Record<string, string> } | null {
+  const normalizedMethod = method.toLowerCase();
+  const candidates = listOperations(openApi)
+    .filter(operation => operation.method === normalizedMethod)
+    .sort((a, b) => countTemplateParams(a.path) - countTemplateParams(b.path));
+  for (const operation of candidates) {
+    const names: string[] = [];
+    const pattern = operation.path
+      .split(/({[^}]+})/)
+      .map(part => {
+        const param = part.match(/^{([^}]+)}$/);
+        if (param) {
+          names.push(param[1]);
+          return '([^/]+)';
+        }
+        return part.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    const match = concretePath.match(new RegExp(`^${pattern}/?$`));
+    if (match) {
+      const params: Record<string, string> = {};
+      try {
+        names.forEach((name, index) => {
+          params[name] = decodeURIComponent(match[index + 1]);
+        });
+      } catch (_error) {
+        // Malformed percent-encoding cannot name a declared resource.
+        continue;
+      }
+      return { operation, params };
+    }
+  }
+  return null;
+}
+
+export function resolveRef(openApi: unknown, value: unknown, depth = 0): unknown {
+  if (!isRecord(value) || typeof value.$ref !== 'string' || depth > 20) {
+    return value;
+  }
+  const ref = value.$ref;
+  if (!ref.startsWith('#/')) {
+    return value;
+  }
+  const target = ref
+    .slice(2)
+    .split('/')
+    .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((acc, part) => (isRecord(acc) ? acc[part] : undefined), openApi);
+  return resolveRef(openApi, target, depth + 1);
+}
+
+export function listRequestMediaTypes(openApi: unknown, operation: OpenApiOperation | null): string[] {
+  const requestBody = asRecord(resolveRef(openApi, operation?.operation.requestBody));
+  return Object.keys(asRecord(requestBody.content));
+}
+
+/**
+ * Media types declared for a response status, falling back to the `NXX`
+ * range and then `default`.
+ */
+export function listResponseMediaTypes(
+  openApi: unknown,
+  operation: OpenApiOperation | null,
+  status: number
+): string[] {
+  const responses = asRecord(operation?.operation.responses);
+  const response = responses[String(status)] ?? responses[`${String(status)[0]}XX`] ?? responses.default;
+  return Object.keys(asRecord(asRecord(resolveRef(openApi, response)).content));
+}
+
+export function isJsonMediaType(mediaType: string): boolean {
+  const normalized = mediaType.split(';')[0].trim().toLowerCase();
+  return normalized === 'application/json' || normalized.endsWith('+json') || normalized === '*/*';
+}
+
+export function pickJsonMediaType(content: unknown): { mediaType: string; media: Record<string, unknown> } | null {
+  const entries = Object.entries(asRecord(content));
+  const match = entries.find(([mediaType]) => isJsonMediaType(mediaType));
+  if (!match) {
+    return null;
+  }
+  return { mediaType: match[0], media: asRecord(match[1]) };
+}
+
+function countTemplateParams(pathTemplate: string): number {
+  return (pathTemplate.match(/{[^}]+}/g) ?? []).length;
+}
+
+function mergeParameters(
+  openApi: unknown,
+  pathLevel: unknown,
+  operationLevel: unknown
+): Array<Record<string, unknown>> {
+  const merged = new Map<string, Record<string, unknown>>();
+  [pathLevel, operationLevel].forEach(list => {
+    if (!Array.isArray(list)) {
+      return;
+    }
+    list.forEach(item => {
+      const parameter = asRecord(resolveRef(openApi, item));
+      const name = typeof parameter.name === 'string' ? parameter.name : '';
+      const location = typeof parameter.in === 'string' ? parameter.in : '';
+      if (name && location) {
+        merged.set(`${location}:${name}`, parameter);
+      }
+    });
+  });
+  return [...merged.values()];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
@@ -0,0 +1,336 @@
+import type { HandlerResult } from '../handlers/types';
+import { isJsonMediaType, resolveRef, type OpenApiOperation } from './document';
+
+export interface MockPreference {
+  code?: string;
+  example?: string;
+}
+
+export type MockResponder = (preference?: MockPreference) => HandlerResult;
+
+interface MockCandidate {
+  status: number;
+  mediaType?: string;
+  media: Record<string, unknown>;
+  headers: Record<string, unknown>;
+}
+
+const MAX_DEPTH = 8;
+
+export function buildMockResponder(openApi: unknown, found: OpenApiOperation): MockResponder {
+  const responses = asRecord(found.operation.responses);
+  const fallback = pickDefaultResponse(openApi, found.operation);
+  return (preference = {}) => {
+    if (!preference.code && !preference.example) {
+      return renderCandidate(openApi, fallback);
+    }
+    const selected = selectPreferredResponse(openApi, responses, preference);
+    if (!selected) {
+      return {
+        status: 400,
+        body: {
+          message: 'Preferred response is not declared in the contract',
+          prefer: preference
+        }
+      };
+    }
+    const result = renderCandidate(openApi, selected.candidate, selected.example);
+    result.headers = {
+      ...result.headers,
+      'preference-applied': formatPreference(preference)
+    };
+    return result;
+  };
+}
+
+export function parsePreferHeader(value: string | string[] | undefined): MockPreference {
+  const raw = Array.isArray(value) ? value.join(',') : value ?? '';
+  const preference: MockPreference = {};
+  raw
+    .split(/[,;]/)
+    .map(item => item.trim())
+    .forEach(item => {
+      const index = item.indexOf('=');
+      if (index <= 0) {
+        return;
+      }
+      const name = item.slice(0, index).trim().toLowerCase();
+      const token = item.slice(index + 1).trim().replace(/^"(.*)"$/, '$1');
+      if (name === 'code' && token) {
+        preference.code = token;
+      } else if (name === 'example' && token) {
+        preference.example = token;
+      }
+    });
+  return preference;
+}
+
+function selectPreferredResponse(
+  openApi: unknown,
+  responses: Record<string, unknown>,
+  preference: MockPreference
+): { candidate: MockCandidate; example?: string } | null {
+  let codes = Object.keys(responses);
+  let status: number | undefined;
+  if (preference.code) {
+    const requested = preference.code.toUpperCase();
+    const key =
+      codes.find(code => code.toUpperCase() === requested) ??
+      codes.find(code => code.toUpperCase() === `${requested.charAt(0)}XX`) ??
+      codes.find(code => code.toLowerCase() === 'default');
+    if (!key || !/^\d{3}$/.test(requested)) {
+      return null;
+    }
+    codes = [key];
+    status = Number(requested);
+  }
+
+  for (const code of codes) {
+    const candidate = toCandidate(openApi, code, responses[code], status);
+    if (!preference.example) {
+      return { candidate };
+    }
+    const response = asRecord(resolveRef(openApi, responses[code]));
+    const content = asRecord(response.content);
+    const mediaType = Object.keys(content).find(item =>
+      Object.prototype.hasOwnProperty.call(asRecord(asRecord(content[item]).examples), preference.example as string)
+    );
+    if (mediaType) {
+      return {
+        candidate: { ...candidate, mediaType, media: asRecord(content[mediaType]) },
+        example: preference.example
+      };
+    }
+  }
+  return null;
+}
+
+function formatPreference(preference: MockPreference): string {
+  return [
+    preference.code ? `code=${preference.code}` : '',
+    preference.example ? `example=${preference.example}` : ''
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+function generateFromSchema(openApi: unknown, schema: unknown, depth = 0): unknown {
+  const resolved = asRecord(resolveRef(openApi, schema));
+  if (depth > MAX_DEPTH) {
+    return null;
+  }
+  if (resolved.example !== undefined) {
+    return resolved.example;
+  }
+  if (resolved.const !== undefined) {
+    return resolved.const;
+  }
+  if (resolved.default !== undefined) {
+    return resolved.default;
+  }
+  if (Array.isArray(resolved.enum) && resolved.enum.length > 0) {
+    return resolved.enum[0];
+  }
+  if (Array.isArray(resolved.allOf)) {
+    return resolved.allOf.reduce<unknown>((acc, part) => {
+      const generated = generateFromSchema(openApi, part, depth + 1);
+      return isRecord(acc) && isRecord(generated) ? { ...acc, ...generated } : generated ?? acc;
+    }, undefined);
+  }
+  const alternatives = Array.isArray(resolved.oneOf) ? resolved.oneOf : resolved.anyOf;
+  if (Array.isArray(alternatives) && alternatives.length > 0) {
+    return generateFromSchema(openApi, alternatives[0], depth + 1);
+  }
+
+  const type = Array.isArray(resolved.type)
+    ? resolved.type.find(item => item !== 'null')
+    : resolved.type ?? inferType(resolved);
+
+  switch (type) {
+    case 'object':
+      return generateObject(openApi, resolved, depth);
+    case 'array':
+      return generateArray(openApi, resolved, depth);
+    case 'integer':
+      return generateNumber(resolved, true);
+    case 'number':
+      return generateNumber(resolved, false);
+    case 'boolean':
+      return true;
+    case 'string':
+      return generateString(resolved);
+    default:
+      return null;
+  }
+}
+
+function pickDefaultResponse(
+  openApi: unknown,
+  operation: Record<string, unknown>
+): MockCandidate | null {
+  const responses = asRecord(operation.responses);
+  const codes = Object.keys(responses);
+  const success = codes
+    .filter(code => /^2\d\d$/.test(code))
+    .sort((a, b) => Number(a) - Number(b));
+  const code = success[0] ?? codes.find(item => /^2XX$/i.test(item)) ?? codes.find(item => item === 'default');
+  if (!code) {
+    return null;
+  }
+  return toCandidate(openApi, code, responses[code]);
+}
+
+function toCandidate(
+  openApi: unknown,
+  code: string,
+  rawResponse: unknown,
+  status?: number
+): MockCandidate {
+  const response = asRecord(resolveRef(openApi, rawResponse));
+  const content = asRecord(response.content);
+  const mediaTypes = Object.keys(content);
+  const mediaType = mediaTypes.find(item => isJsonMediaType(item)) ?? mediaTypes[0];
+  return {
+    status:
+      status ??
+      (/^\d{3}$/.test(code) ? Number(code) : code.toUpperCase() === 'DEFAULT' ? 200 : Number(code[0]) * 100),
+    mediaType,
+    media: mediaType ? asRecord(content[mediaType]) : {},
+    headers: asRecord(response.headers)
+  };
+}
+
+function renderCandidate(
+  openApi: unknown,
+  candidate: MockCandidate | null,
+  exampleName?: string
+): HandlerResult {
+  if (!candidate) {
+    return { status: 200, body: { ok: true } };
+  }
+  const headers: Record<string, string> = {};
+  Object.entries(candidate.headers).forEach(([name, rawHeader]) => {
+    const header = asRecord(resolveRef(openApi, rawHeader));
+    const value = header.example ?? generateFromSchema(openApi, header.schema);
+    if (value !== undefined && value !== null) {
+      headers[name] = String(value);
+    }
+  });
+  if (candidate.mediaType) {
+    headers['content-type'] = candidate.mediaType;
+  }
+  return {
+    status: candidate.status,
+    headers,
+    body: mediaBody(openApi, candidate.media, exampleName)
+  };
+}
+
+function mediaBody(
+  openApi: unknown,
+  media: Record<string, unknown>,
+  exampleName?: string
+): unknown {
+  const examples = asRecord(media.examples);
+  const first = exampleName ? examples[exampleName] : Object.values(examples)[0];
+  if (first !== undefined) {
+    return asRecord(resolveRef(openApi, first)).value;
+  }
+  if (media.example !== undefined) {
+    return media.example;
+  }
+  if (media.schema !== undefined) {
+    return generateFromSchema(openApi, media.schema);
+  }
+  return undefined;
+}
+
+function generateObject(openApi: unknown, schema: Record<string, unknown>, depth: number): unknown {
+  const result: Record<string, unknown> = {};
+  Object.entries(asRecord(schema.properties)).forEach(([name, property]) => {
+    const resolved = asRecord(resolveRef(openApi, property));
+    if (resolved.writeOnly === true) {
+      return;
+    }
+    result[name] = generateFromSchema(openApi, property, depth + 1);
+  });
+  return result;
+}
+
+function generateArray(openApi: unknown, schema: Record<string, unknown>, depth: number): unknown[] {
+  const minItems = typeof schema.minItems === 'number' ? schema.minItems : 1;
+  const maxItems = typeof schema.maxItems === 'number' ? schema.maxItems : Math.max(minItems, 1);
+  const count = Math.min(Math.max(minItems, 1), maxItems);
+  return Array.from({ length: count }, () => generateFromSchema(openApi, schema.items, depth + 1));
+}
+
+function generateNumber(schema: Record<string, unknown>, integer: boolean): number {
+  const step = integer ? 1 : 0.01;
+  const exclusiveMin = schema.exclusiveMinimum;
+  const exclusiveMax = schema.exclusiveMaximum;
+  let min = typeof schema.minimum === 'number' ? schema.minimum : undefined;
+  let max = typeof schema.maximum === 'number' ? schema.maximum : undefined;
+  if (typeof exclusiveMin === 'number') {
+    min = exclusiveMin + step;
+  } else if (exclusiveMin === true && min !== undefined) {
+    min += step;
+  }
+  if (typeof exclusiveMax === 'number') {
+    max = exclusiveMax - step;
+  } else if (exclusiveMax === true && max !== undefined) {
+    max -= step;
+  }
+
+  let value = min ?? (max !== undefined ? Math.min(0, max) : 0);
+  const multipleOf = typeof schema.multipleOf === 'number' && schema.multipleOf > 0 ? schema.multipleOf : undefined;
+  if (multipleOf) {
+    value = Math.ceil(value / multipleOf) * multipleOf;
+  }
+  return integer ? Math.ceil(value) : value;
+}
+
+function generateString(schema: Record<string, unknown>): string {
+  const format = typeof schema.format === 'string' ? schema.format : '';
+  const byFormat: Record<string, string> = {
+    'date-time': '2024-01-01T00:00:00.000Z',
+    date: '2024-01-01',
+    time: '00:00:00Z',
+    email: 'user@example.com',
+    uuid: '00000000-0000-4000-8000-000000000000',
+    uri: 'https://example.com',
+    url: 'https://example.com',
+    hostname: 'example.com',
+    ipv4: '127.0.0.1',
+    ipv6: '::1',
+    byte: 'c3RyaW5n',
+    password: 'secret'
+  };
+  let value = byFormat[format] ?? 'string';
+  const minLength = typeof schema.minLength === 'number' ? schema.minLength : 0;
+  const maxLength = typeof schema.maxLength === 'number' ? schema.maxLength : undefined;
+  if (value.length < minLength) {
+    value = value.padEnd(minLength, 'x');
+  }
+  if (maxLength !== undefined && value.length > maxLength) {
+    value = value.slice(0, maxLength);
+  }
+  return value;
+}
+
+function inferType(schema: Record<string, unknown>): string | undefined {
+  if (isRecord(schema.properties)) {
+    return 'object';
+  }
+  if (schema.items !== undefined) {
+    return 'array';
+  }
+  return undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
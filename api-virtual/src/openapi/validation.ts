@@ -0,0 +1,349 @@
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import type { Request } from 'express';
+import type { HandlerResult } from '../handlers/types';
+import {
+  isJsonMediaType,
+  pickJsonMediaType,
+  resolveRef,
+  type OpenApiOperation
+} from './document';
+
+export type ViolationLocation = 'path' | 'query' | 'header' | 'cookie' | 'body' | 'status';
+
+export interface ValidationViolation {
+  in: ViolationLocation;
+  name?: string;
+  path: string;
+  message: string;
+  actual?: unknown;
+}
+
+export type RequestValidator = (req: Request) => ValidationViolation[];
+
+export type ResponseValidator = (result: HandlerResult) => ValidationViolation[];
+
+const IGNORED_HEADER_PARAMETERS = new Set(['accept', 'content-type', 'authorization']);
+
+const bodyAjv = createAjv(false);
+const parameterAjv = createAjv('array');
+
+export function buildRequestValidator(openApi: unknown, found: OpenApiOperation): RequestValidator {
+  const components = asRecord(openApi).components;
+  const parameterValidators = (['path', 'query', 'header', 'cookie'] as const)
+    .map(location => buildParameterValidator(location, found.parameters, components))
+    .filter((item): item is ParameterValidator => item !== null);
+  const bodyValidator = buildBodyValidator(openApi, found.operation, components);
+
+  return (req: Request) => {
+    const violations: ValidationViolation[] = [];
+    parameterValidators.forEach(validator => {
+      violations.push(...validator(req));
+    });
+    if (bodyValidator) {
+      violations.push(...bodyValidator(req));
+    }
+    return violations;
+  };
+}
+
+export function buildResponseValidator(openApi: unknown, found: OpenApiOperation): ResponseValidator {
+  const components = asRecord(openApi).components;
+  const responses = asRecord(found.operation.responses);
+  const compiled = new Map<string, { headers: ResponseHeaderCheck[]; body: BodyCheck | null }>();
+
+  Object.entries(responses).forEach(([code, raw]) => {
+    const response = asRecord(resolveRef(openApi, raw));
+    const headers = Object.entries(asRecord(response.headers)).map(([name, rawHeader]) => {
+      const header = asRecord(resolveRef(openApi, rawHeader));
+      return {
+        name: name.toLowerCase(),
+        required: header.required === true,
+        validate: parameterAjv.compile(withComponents(header.schema ?? {}, components))
+      };
+    });
+    const json = pickJsonMediaType(response.content);
+    const body =
+      json?.media.schema !== undefined
+        ? { validate: bodyAjv.compile(withComponents(json.media.schema, components)) }
+        : null;
+    compiled.set(code.toUpperCase(), { headers, body });
+  });
+
+  return (result: HandlerResult) => {
+    const status = result.status ?? 200;
+    const declared =
+      compiled.get(String(status)) ??
+      compiled.get(`${String(status).charAt(0)}XX`) ??
+      compiled.get('DEFAULT');
+    if (!declared) {
+      return [{ in: 'status', path: '', message: `status ${status} is not declared in the contract` }];
+    }
+
+    const violations: ValidationViolation[] = [];
+    const headers = lowerCaseKeys(result.headers ?? {});
+    declared.headers.forEach(header => {
+      const value = headers[header.name];
+      if (value === undefined) {
+        if (header.required) {
+          violations.push({ in: 'header', name: header.name, path: '', message: 'is required' });
+        }
+        return;
+      }
+      if (!header.validate(value)) {
+        toViolations('header', header.validate.errors).forEach(violation => {
+          violations.push({ ...violation, name: header.name });
+        });
+      }
+    });
+
+    const contentType = headers['content-type'];
+    if (declared.body && (!contentType || isJsonMediaType(contentType))) {
+      const body = parseJsonString(result.body);
+      if (!declared.body.validate(body)) {
+        toViolations('body', declared.body.validate.errors).forEach(violation => {
+          violations.push({ ...violation, actual: readPointer(body, violation.path) });
+        });
+      }
+    }
+    return violations;
+  };
+}
+
+function toViolations(
+  location: ViolationLocation,
+  errors: ErrorObject[] | null | undefined
+): ValidationViolation[] {
+  return (errors ?? []).map(error => {
+    const missing =
+      error.keyword === 'required' && typeof error.params.missingProperty === 'string'
+        ? `/${error.params.missingProperty}`
+        : '';
+    const path = `${error.instancePath}${missing}`;
+    const detail =
+      error.keyword === 'additionalProperties' && typeof error.params.additionalProperty === 'string'
+        ? ` (${error.params.additionalProperty})`
+        : error.keyword === 'enum' && Array.isArray(error.params.allowedValues)
+          ? ` (${error.params.allowedValues.join(', ')})`
+          : '';
+    return {
+      in: location,
+      path,
+      message: `${error.message ?? 'is invalid'}${detail}`
+    };
+  });
+}
+
+type ParameterValidator = (req: Request) => ValidationViolation[];
+
+interface ResponseHeaderCheck {
+  name: string;
+  required: boolean;
+  validate: ValidateFunction;
+}
+
+interface BodyCheck {
+  validate: ValidateFunction;
+}
+
+function buildParameterValidator(
+  location: 'path' | 'query' | 'header' | 'cookie',
+  parameters: Array<Record<string, unknown>>,
+  components: unknown
+): ParameterValidator | null {
+  const selected = parameters.filter(parameter => {
+    if (parameter.in !== location) {
+      return false;
+    }
+    return !(location === 'header' && IGNORED_HEADER_PARAMETERS.has(String(parameter.name).toLowerCase()));
+  });
+  if (selected.length === 0) {
+    return null;
+  }
+
+  const properties: Record<string, unknown> = {};
+  const required: string[] = [];
+  selected.forEach(parameter => {
+    const name = parameterKey(location, String(parameter.name));
+    properties[name] = parameter.schema ?? {};
+    if (parameter.required === true || location === 'path') {
+      required.push(name);
+    }
+  });
+  const validate = parameterAjv.compile(
+    withComponents({ type: 'object', properties, required }, components)
+  );
+
+  return (req: Request) => {
+    const values: Record<string, unknown> = {};
+    selected.forEach(parameter => {
+      const name = parameterKey(location, String(parameter.name));
+      const raw = readParameter(location, name, req);
+      if (raw === undefined || raw === '') {
+        return;
+      }
+      values[name] = splitDelimited(raw, parameter, components);
+    });
+    if (validate(values)) {
+      return [];
+    }
+    return toViolations(location, validate.errors).map(violation => {
+      const [name, ...rest] = violation.path.split('/').filter(Boolean);
+      return {
+        in: location,
+        name,
+        path: rest.length > 0 ? `/${rest.join('/')}` : '',
+        message: violation.message
+      };
+    });
+  };
+}
+
+function buildBodyValidator(
+  openApi: unknown,
+  operation: Record<string, unknown>,
+  components: unknown
+): ParameterValidator | null {
+  const requestBody = asRecord(resolveRef(openApi, operation.requestBody));
+  if (Object.keys(requestBody).length === 0) {
+    return null;
+  }
+  const required = requestBody.required === true;
+  const json = pickJsonMediaType(requestBody.content);
+  const validate = json?.media.schema !== undefined
+    ? bodyAjv.compile(withComponents(json.media.schema, components))
+    : null;
+
+  return (req: Request) => {
+    if (!hasRequestBody(req)) {
+      return required ? [{ in: 'body', path: '', message: 'request body is required' }] : [];
+    }
+    if (!validate || !req.is('json')) {
+      return [];
+    }
+    if (validate(req.body)) {
+      return [];
+    }
+    return toViolations('body', validate.errors);
+  };
+}
+
+function readParameter(
+  location: 'path' | 'query' | 'header' | 'cookie',
+  name: string,
+  req: Request
+): unknown {
+  switch (location) {
+    case 'path':
+      return req.params[name];
+    case 'query':
+      return req.query[name];
+    case 'header':
+      return req.headers[name];
+    case 'cookie':
+      return parseCookies(req.headers.cookie)[name];
+  }
+}
+
+function parameterKey(location: string, name: string): string {
+  return location === 'header' ? name.toLowerCase() : name;
+}
+
+function splitDelimited(
+  raw: unknown,
+  parameter: Record<string, unknown>,
+  components: unknown
+): unknown {
+  const schema = asRecord(resolveRef({ components }, parameter.schema));
+  if (schema.type !== 'array' || typeof raw !== 'string') {
+    return raw;
+  }
+  if (parameter.in === 'query' && parameter.explode !== false && parameter.style !== 'pipeDelimited') {
+    return raw;
+  }
+  const separator = parameter.style === 'pipeDelimited' ? '|' : parameter.style === 'spaceDelimited' ? ' ' : ',';
+  return raw.split(separator);
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  (header ?? '').split(';').forEach(pair => {
+    const index = pair.indexOf('=');
+    if (index <= 0) {
+      return;
+    }
+    cookies[pair.slice(0, index).trim()] = decodeCookieValue(pair.slice(index + 1).trim());
+  });
+  return cookies;
+}
+
+function decodeCookieValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (_error) {
+    return value;
+  }
+}
+
+function hasRequestBody(req: Request): boolean {
+  return (
+    req.headers['transfer-encoding'] !== undefined ||
+    Number(req.headers['content-length'] ?? 0) > 0
+  );
+}
+
+function readPointer(source: unknown, pointer: string): unknown {
+  return pointer
+    .split('/')
+    .filter(Boolean)
+    .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((acc, part) => {
+      if (Array.isArray(acc)) {
+        return acc[Number(part)];
+      }
+      return isRecord(acc) ? acc[part] : undefined;
+    }, source);
+}
+
+function parseJsonString(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value) as unknown;
+  } catch (_error) {
+    return value;
+  }
+}
+
+function lowerCaseKeys(source: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  Object.entries(source).forEach(([key, value]) => {
+    result[key.toLowerCase()] = value;
+  });
+  return result;
+}
+
+function withComponents(schema: unknown, components: unknown): Record<string, unknown> {
+  const base = isRecord(schema) ? schema : {};
+  return components === undefined ? base : { ...base, components };
+}
+
+function createAjv(coerceTypes: false | 'array'): Ajv {
+  const ajv = new Ajv({
+    allErrors: true,
+    strict: false,
+    coerceTypes,
+    discriminator: false
+  });
+  addFormats(ajv);
+  return ajv;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
@@ -0,0 +1,238 @@
+import crypto from 'node:crypto';
+import type { Request, Response } from 'express';
+import { matchOperation } from '../openapi/document';
+import { upsertVirtualStateDocument } from '../workflow/engine';
+
+export interface UpstreamConfig {
+  url?: string;
+  urlEnv?: string;
+  mode?: 'unmatched' | 'all';
+  record?: boolean;
+  matchOn?: Array<'params' | 'query' | 'body'>;
+  timeoutMs?: number;
+  headers?: UpstreamHeadersConfig;
+}
+
+export interface UpstreamHeadersConfig {
+  set?: Record<string, string>;
+  setEnv?: Record<string, string>;
+  remove?: string[];
+  forwarded?: boolean;
+}
+
+export interface UpstreamProxyOptions {
+  apiId: string;
+  openApi: unknown;
+  resources: Record<string, unknown>;
+  upstream: UpstreamConfig;
+  log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'host',
+  'content-length'
+]);
+const DEFAULT_UPSTREAM_TIMEOUT_MS = 30000;
+
+export function resolveUpstreamUrl(upstream: UpstreamConfig | undefined): string {
+  if (!upstream) {
+    return '';
+  }
+  const fromEnv = upstream.urlEnv ? process.env[upstream.urlEnv] : undefined;
+  return (fromEnv || upstream.url || '').replace(/\/+$/, '');
+}
+
+export function createUpstreamProxy(options: UpstreamProxyOptions) {
+  const baseUrl = resolveUpstreamUrl(options.upstream);
+  const timeoutMs = options.upstream.timeoutMs ?? DEFAULT_UPSTREAM_TIMEOUT_MS;
+  return async (req: Request, res: Response) => {
+    const target = `${baseUrl}${req.url}`;
+    res.locals.apiId = options.apiId;
+    res.locals.handlerType = 'upstream';
+
+    let upstreamResponse: Awaited<ReturnType<typeof fetch>>;
+    let payload: Buffer;
+    try {
+      upstreamResponse = await fetch(target, {
+        method: req.method,
+        headers: buildForwardHeaders(req, options.upstream, target),
+        body: buildForwardBody(req),
+        redirect: 'manual',
+        signal: AbortSignal.timeout(timeoutMs),
+        duplex: 'half'
+      } as RequestInit);
+      payload = Buffer.from(await upstreamResponse.arrayBuffer());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      options.log('error', `Upstream ${req.method} ${target} failed: ${message}`);
+      if (!res.headersSent) {
+        res.status(timedOut ? 504 : 502).json({
+          message: timedOut ? `Upstream timed out after ${timeoutMs}ms` : 'Upstream request failed',
+          upstream: target,
+          error: message
+        });
+      }
+      return;
+    }
+
+    upstreamResponse.headers.forEach((value, name) => {
+      if (!HOP_BY_HOP_HEADERS.has(name) && name !== 'content-encoding' && name !== 'set-cookie') {
+        res.setHeader(name, value);
+      }
+    });
+    const cookies = upstreamResponse.headers.getSetCookie();
+    if (cookies.length > 0) {
+      res.setHeader('set-cookie', cookies);
+    }
+    res.setHeader('x-virtual-source', 'upstream');
+    res.status(upstreamResponse.status).send(payload);
+
+    // Recorded after responding so a slow or unreachable Mongo never delays the client.
+    if (options.upstream.record) {
+      recordCase(options, req, res, upstreamResponse.status, upstreamResponse.headers, payload).catch(error => {
+        const message = error instanceof Error ? error.message : String(error);
+        options.log('error', `Recording ${options.apiId} ${req.method} ${req.path} failed: ${message}`);
+      });
+    }
+  };
+}
+
+async function recordCase(
+  options: UpstreamProxyOptions,
+  req: Request,
+  res: Response,
+  status: number,
+  headers: Headers,
+  payload: Buffer
+): Promise<void> {
+  const method = req.method.toUpperCase();
+  const matched = matchOperation(options.openApi, method, req.path);
+  const pathTemplate = matched ? toExpressPath(matched.operation.path) : req.path;
+  const match = buildMatch(options.upstream.matchOn ?? ['params', 'query'], {
+    params: matched?.params ?? {},
+    query: req.query,
+    body: req.body
+  });
+  const fingerprint = crypto
+    .createHash('sha1')
+    .update(JSON.stringify(match))
+    .digest('hex')
+    .slice(0, 12);
+  const contentType = headers.get('content-type') ?? 'application/json; charset=UTF-8';
+  const text = payload.toString('utf8');
+
+  await upsertVirtualStateDocument(options.resources, {
+    api: options.apiId,
+    collection: 'cases',
+    key: `recorded:${method}:${pathTemplate}:${fingerprint}`,
+    session: res.locals.session,
+    method,
+    pathTemplate,
+    match,
+    status,
+    headers: { 'content-type': contentType },
+    data: /json/i.test(contentType) ? parseJson(text) : text,
+    enabled: true,
+    priority: 0,
+    source: 'recorded',
+    recordedAt: new Date().toISOString()
+  });
+}
+
+function buildMatch(
+  sources: Array<'params' | 'query' | 'body'>,
+  values: Record<'params' | 'query' | 'body', unknown>
+): Record<string, string> {
+  const match: Record<string, string> = {};
+  sources.forEach(source => {
+    flattenScalars(values[source], source, match);
+  });
+  return match;
+}
+
+function flattenScalars(value: unknown, prefix: string, target: Record<string, string>): void {
+  if (value === undefined || value === null || value === '') {
+    return;
+  }
+  if (Array.isArray(value)) {
+    target[prefix] = value.map(item => String(item)).join(',');
+    return;
+  }
+  if (typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+      flattenScalars(item, `${prefix}.${key}`, target);
+    });
+    return;
+  }
+  target[prefix] = String(value);
+}
+
+function buildForwardHeaders(
+  req: Request,
+  upstream: UpstreamConfig,
+  target: string
+): Record<string, string> {
+  const rewrite = upstream.headers ?? {};
+  const removed = new Set((rewrite.remove ?? []).map(name => name.toLowerCase()));
+  const headers: Record<string, string> = {};
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (value === undefined || HOP_BY_HOP_HEADERS.has(name) || removed.has(name)) {
+      return;
+    }
+    headers[name] = Array.isArray(value) ? value.join(', ') : value;
+  });
+
+  if (rewrite.forwarded !== false) {
+    const forwardedFor = req.headers['x-forwarded-for'];
+    const clientIp = req.socket.remoteAddress ?? '';
+    headers['x-forwarded-for'] = forwardedFor ? `${String(forwardedFor)}, ${clientIp}` : clientIp;
+    headers['x-forwarded-host'] = req.headers.host ?? new URL(target).host;
+    headers['x-forwarded-proto'] = req.protocol;
+  }
+  Object.entries(rewrite.set ?? {}).forEach(([name, value]) => {
+    headers[name.toLowerCase()] = String(value);
+  });
+  Object.entries(rewrite.setEnv ?? {}).forEach(([name, envName]) => {
+    const value = process.env[envName];
+    if (value !== undefined && value !== '') {
+      headers[name.toLowerCase()] = value;
+    }
+  });
+  return headers;
+}
+
+function buildForwardBody(req: Request): RequestInit['body'] {
+  if (req.method === 'GET' || req.method === 'HEAD') {
+    return undefined;
+  }
+  const parsed = req as Request & { _body?: boolean; rawBody?: Buffer };
+  if (parsed._body) {
+    // The JSON parser already consumed the stream; forward the exact bytes it read.
+    return parsed.rawBody ?? JSON.stringify(req.body);
+  }
+  return req.readable ? (req as unknown as RequestInit['body']) : undefined;
+}
+
+function parseJson(text: string): unknown {
+  if (!text) {
+    return null;
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch (_error) {
+    return text;
+  }
+}
+
+function toExpressPath(openApiPath: string): string {
+  return openApiPath.replace(/{(.*?)}/g, ':$1');
+}
@@ -0,0 +1,73 @@
+export interface ScenariosConfig {
+  active?: string;
+  definitions?: Record<string, ScenarioDefinition>;
+}
+
+export interface ScenarioDefinition {
+  description?: string;
+  vars?: Record<string, unknown>;
+  routes?: ScenarioRoute[];
+}
+
+export interface ScenarioRoute {
+  method: string;
+  path: string;
+  response?: ScenarioResponse;
+  vars?: Record<string, unknown>;
+}
+
+export interface ScenarioResponse {
+  status?: number | unknown;
+  headers?: Record<string, string>;
+  body?: unknown;
+  bodyTemplate?: unknown;
+  file?: string;
+  filename?: string;
+  encoding?: 'base64';
+  delayMs?: number;
+}
+
+export interface ResolvedScenario {
+  name?: string;
+  vars: Record<string, unknown>;
+  response?: ScenarioResponse;
+}
+
+const runtimeScenarios = new Map<string, string>();
+
+export function setActiveScenario(apiId: string, name: string | null): void {
+  if (name === null) {
+    runtimeScenarios.delete(apiId);
+    return;
+  }
+  runtimeScenarios.set(apiId, name);
+}
+
+export function getActiveScenario(apiId: string, config: ScenariosConfig): string | undefined {
+  const runtime = runtimeScenarios.get(apiId);
+  if (runtime && config.definitions?.[runtime]) {
+    return runtime;
+  }
+  return config.active;
+}
+
+export function resolveScenario(
+  apiId: string,
+  config: ScenariosConfig,
+  method: string,
+  pathTemplate: string
+): ResolvedScenario {
+  const name = getActiveScenario(apiId, config);
+  const definition = name ? config.definitions?.[name] : undefined;
+  if (!definition) {
+    return { vars: {} };
+  }
+  const route = (definition.routes ?? []).find(
+    item => item.method.toUpperCase() === method.toUpperCase() && item.path === pathTemplate
+  );
+  return {
+    name,
+    vars: { ...definition.vars, ...route?.vars },
+    response: route?.response
+  };
+}
@@ -0,0 +1,56 @@
+import type { Request } from 'express';
+
+export interface SessionInfo {
+  id: string;
+  firstSeenAt: string;
+}
+
+export class SessionInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionInputError';
+  }
+}
+
+const SESSION_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+const sessions = new Map<string, { info: SessionInfo; seeded: Promise<void> }>();
+
+export function resolveSession(req: Request, headerName: string, queryParam: string): string | undefined {
+  const fromHeader = req.headers[headerName.toLowerCase()];
+  const fromQuery = req.query[queryParam];
+  const raw = Array.isArray(fromHeader) ? fromHeader[0] : fromHeader ?? fromQuery;
+  if (raw === undefined || raw === '') {
+    return undefined;
+  }
+  if (typeof raw !== 'string' || !SESSION_PATTERN.test(raw)) {
+    throw new SessionInputError(
+      `Session must match ${SESSION_PATTERN.source} (from ${headerName} or ?${queryParam})`
+    );
+  }
+  return raw;
+}
+
+/**
+ * Runs the seed loader once per session; concurrent first requests share the
+ * same promise so a session is never seeded twice.
+ */
+export function ensureSessionSeeded(session: string, seed: () => Promise<void>): Promise<void> {
+  const existing = sessions.get(session);
+  if (existing) {
+    return existing.seeded;
+  }
+  const entry = {
+    info: { id: session, firstSeenAt: new Date().toISOString() },
+    seeded: seed()
+  };
+  sessions.set(session, entry);
+  return entry.seeded;
+}
+
+export function forgetSession(session: string): boolean {
+  return sessions.delete(session);
+}
+
+export function listSessions(): SessionInfo[] {
+  return [...sessions.values()].map(entry => entry.info);
+}
@@ -0,0 +1,383 @@
+import crypto from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import type { Socket } from 'net';
+import type { Duplex } from 'stream';
+import type { Request, Response } from 'express';
+import type { WorkflowDefinition } from '../workflow/engine';
+
+export interface StreamTimelineStep {
+  delayMs?: number;
+  event?: string;
+  id?: string;
+  data?: unknown;
+  dataTemplate?: unknown;
+}
+
+export interface StreamDefinition {
+  type: 'sse' | 'websocket';
+  channel?: string;
+  event?: string;
+  heartbeatMs?: number;
+  timeline?: StreamTimelineStep[];
+  repeat?: boolean | number;
+  workflow?: WorkflowDefinition;
+  intervalMs?: number;
+  maxMessages?: number;
+  closeWhenDone?: boolean;
+}
+
+export interface StreamMessage {
+  event?: string;
+  id?: string;
+  data: unknown;
+}
+
+export interface StreamInfo {
+  id: string;
+  type: 'sse' | 'websocket';
+  api: string;
+  route: string;
+  channel: string;
+  session?: string;
+  connectedAt: string;
+  sent: number;
+  received: number;
+}
+
+export interface StreamConnection {
+  info: StreamInfo;
+  isClosed(): boolean;
+  send(message: StreamMessage): void;
+  close(): void;
+}
+
+export interface StreamPlayback {
+  timeline: StreamTimelineStep[];
+  repeat: number;
+  render: (step: StreamTimelineStep, position: { index: number; iteration: number }) => StreamMessage;
+  next?: (tick: number) => Promise<StreamMessage | null>;
+  intervalMs: number;
+  maxMessages: number;
+  closeWhenDone: boolean;
+}
+
+type UpgradeRequest = IncomingMessage & { webSocketUpgrade?: { socket: Duplex; head: Buffer } };
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const WEBSOCKET_MAX_FRAME_BYTES = 1024 * 1024;
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_MESSAGE_TOO_BIG = 1009;
+const connections = new Map<string, StreamConnection>();
+
+/**
+ * `upgrade` listener that runs WebSocket handshakes through the regular app,
+ * so faults, sessions and auth apply before a route accepts the socket.
+ * Anything the app answers instead is written back as a plain HTTP response.
+ */
+export function createUpgradeListener(handle: (req: IncomingMessage, res: ServerResponse) => void) {
+  return (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    socket.on('error', () => socket.destroy());
+    (req as UpgradeRequest).webSocketUpgrade = { socket, head };
+    const res = new ServerResponse(req);
+    res.shouldKeepAlive = false;
+    res.assignSocket(socket as Socket);
+    res.on('finish', () => {
+      res.detachSocket(socket as Socket);
+      socket.end();
+    });
+    handle(req, res);
+  };
+}
+
+export function openEventStream(
+  req: Request,
+  res: Response,
+  info: Omit<StreamInfo, 'id' | 'type' | 'connectedAt' | 'sent' | 'received'>,
+  heartbeatMs: number
+): StreamConnection {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let closed = false;
+  const heartbeat = heartbeatMs > 0 ? setInterval(() => res.write(': keep-alive\n\n'), heartbeatMs) : null;
+  const connection = register('sse', info, {
+    isClosed: () => closed,
+    send: message => {
+      const lines = [
+        ...(message.id !== undefined ? [`id: ${message.id}`] : []),
+        ...(message.event ? [`event: ${message.event}`] : []),
+        ...serializeData(message.data)
+          .split(/\r?\n/)
+          .map(line => `data: ${line}`)
+      ];
+      res.write(`${lines.join('\n')}\n\n`);
+    },
+    close: () => res.end()
+  });
+  req.on('close', () => {
+    closed = true;
+    if (heartbeat) {
+      clearInterval(heartbeat);
+    }
+    connections.delete(connection.info.id);
+  });
+  return connection;
+}
+
+/**
+ * Completes the WebSocket handshake for a request that arrived through
+ * `createUpgradeListener`. Returns null for plain HTTP requests.
+ */
+export function acceptWebSocket(
+  req: Request,
+  res: Response,
+  info: Omit<StreamInfo, 'id' | 'type' | 'connectedAt' | 'sent' | 'received'>
+): StreamConnection | null {
+  const upgrade = (req as unknown as UpgradeRequest).webSocketUpgrade;
+  const key = req.headers['sec-websocket-key'];
+  if (!upgrade || typeof key !== 'string' || String(req.headers.upgrade).toLowerCase() !== 'websocket') {
+    return null;
+  }
+  const { socket, head } = upgrade;
+  res.detachSocket(socket as Socket);
+  const accept = crypto.createHash('sha1').update(`${key}${WEBSOCKET_GUID}`).digest('base64');
+  const protocol = String(req.headers['sec-websocket-protocol'] ?? '').split(',')[0].trim();
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      ...(protocol ? [`Sec-WebSocket-Protocol: ${protocol}`] : []),
+      '',
+      ''
+    ].join('\r\n')
+  );
+
+  let closed = false;
+  const finish = () => {
+    if (!closed) {
+      closed = true;
+      connections.delete(connection.info.id);
+    }
+  };
+  const connection = register('websocket', info, {
+    isClosed: () => closed,
+    send: message => socket.write(encodeFrame(0x1, Buffer.from(serializeData(message.data)))),
+    close: () => {
+      if (!closed) {
+        socket.end(encodeFrame(0x8, Buffer.from([0x03, 0xe8])));
+        finish();
+      }
+    }
+  });
+
+  let pending = head.length > 0 ? Buffer.from(head) : Buffer.alloc(0);
+  socket.on('data', (chunk: Buffer) => {
+    if (closed) {
+      return;
+    }
+    pending = Buffer.concat([pending, chunk]);
+    for (let frame = readFrame(pending); frame; frame = readFrame(pending)) {
+      if ('closeCode' in frame) {
+        const payload = Buffer.alloc(2);
+        payload.writeUInt16BE(frame.closeCode);
+        socket.end(encodeFrame(0x8, payload));
+        pending = Buffer.alloc(0);
+        finish();
+        return;
+      }
+      pending = pending.subarray(frame.size);
+      if (frame.opcode === 0x8) {
+        socket.end(encodeFrame(0x8, frame.payload.subarray(0, 2)));
+        finish();
+        return;
+      }
+      if (frame.opcode === 0x9) {
+        socket.write(encodeFrame(0xa, frame.payload));
+      } else if (frame.opcode <= 0x2) {
+        connection.info.received += 1;
+      }
+    }
+  });
+  socket.on('end', () => {
+    socket.end();
+    finish();
+  });
+  socket.on('close', finish);
+  return connection;
+}
+
+/**
+ * Plays the scripted timeline (optionally repeated), then the workflow loop,
+ * counting both against `maxMessages`. Admin pushes are independent.
+ */
+export async function playStream(connection: StreamConnection, playback: StreamPlayback): Promise<void> {
+  let sent = 0;
+  const emit = (message: StreamMessage | null) => {
+    if (message && !connection.isClosed()) {
+      connection.send(message);
+      sent += 1;
+    }
+  };
+  const done = () => connection.isClosed() || sent >= playback.maxMessages;
+
+  if (playback.timeline.length > 0) {
+    for (let iteration = 0; iteration < playback.repeat && !done(); iteration += 1) {
+      for (let index = 0; index < playback.timeline.length && !done(); index += 1) {
+        const step = playback.timeline[index];
+        await wait(step.delayMs ?? 0);
+        if (!done()) {
+          emit(playback.render(step, { index, iteration }));
+        }
+      }
+    }
+  }
+  if (playback.next) {
+    for (let tick = 0; !done(); tick += 1) {
+      if (tick > 0) {
+        await wait(playback.intervalMs);
+      }
+      if (!done()) {
+        emit(await playback.next(tick));
+      }
+    }
+  }
+  if (playback.closeWhenDone && !connection.isClosed()) {
+    connection.close();
+  }
+}
+
+export function publishStreamMessage(target: { api?: string; channel: string }, message: StreamMessage): number {
+  let delivered = 0;
+  connections.forEach(connection => {
+    if (connection.info.channel !== target.channel || (target.api && connection.info.api !== target.api)) {
+      return;
+    }
+    if (!connection.isClosed()) {
+      connection.send(message);
+      delivered += 1;
+    }
+  });
+  return delivered;
+}
+
+export function listStreamConnections(filter: { api?: string; channel?: string } = {}): StreamInfo[] {
+  return [...connections.values()]
+    .map(connection => connection.info)
+    .filter(info => (!filter.api || info.api === filter.api) && (!filter.channel || info.channel === filter.channel));
+}
+
+export function closeStreamConnection(id: string): boolean {
+  const connection = connections.get(id);
+  if (!connection) {
+    return false;
+  }
+  connection.close();
+  connections.delete(id);
+  return true;
+}
+
+function register(
+  type: 'sse' | 'websocket',
+  info: Omit<StreamInfo, 'id' | 'type' | 'connectedAt' | 'sent' | 'received'>,
+  transport: { isClosed: () => boolean; send: (message: StreamMessage) => void; close: () => void }
+): StreamConnection {
+  const connection: StreamConnection = {
+    info: {
+      id: crypto.randomUUID(),
+      type,
+      ...info,
+      connectedAt: new Date().toISOString(),
+      sent: 0,
+      received: 0
+    },
+    isClosed: transport.isClosed,
+    send: message => {
+      transport.send(message);
+      connection.info.sent += 1;
+    },
+    close: transport.close
+  };
+  connections.set(connection.info.id, connection);
+  return connection;
+}
+
+function serializeData(data: unknown): string {
+  if (typeof data === 'string') {
+    return data;
+  }
+  return data === undefined ? '' : JSON.stringify(data);
+}
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Reads one complete frame. Frames larger than WEBSOCKET_MAX_FRAME_BYTES and
+ * unmasked client frames (RFC 6455 5.1) yield the close code to fail with,
+ * checked from the header so oversized payloads are never buffered.
+ */
+function readFrame(
+  buffer: Buffer
+): { opcode: number; payload: Buffer; size: number } | { closeCode: number } | null {
+  if (buffer.length < 2) {
+    return null;
+  }
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) {
+      return null;
+    }
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) {
+      return null;
+    }
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (!masked) {
+    return { closeCode: CLOSE_PROTOCOL_ERROR };
+  }
+  if (length > WEBSOCKET_MAX_FRAME_BYTES) {
+    return { closeCode: CLOSE_MESSAGE_TOO_BIG };
+  }
+  const maskOffset = offset;
+  offset += 4;
+  if (buffer.length < offset + length) {
+    return null;
+  }
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  for (let index = 0; index < payload.length; index += 1) {
+    payload[index] ^= buffer[maskOffset + (index % 4)];
+  }
+  return { opcode, payload, size: offset + length };
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,350 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import type { NextFunction, Request, Response } from 'express';
+
+type AttributeValue = string | number | boolean;
+type Attributes = Record<string, AttributeValue | undefined>;
+type SpanKind = 'internal' | 'server' | 'client';
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+export interface Span {
+  context: SpanContext;
+  setAttribute(key: string, value: AttributeValue | undefined): void;
+  setAttributes(attributes: Attributes): void;
+  updateName(name: string): void;
+  recordError(error: unknown): void;
+  end(): void;
+}
+
+export interface TracingOptions {
+  endpoint: string | null;
+  serviceName: string;
+  headers?: Record<string, string>;
+  resourceAttributes?: Record<string, string>;
+  log?: (level: 'info' | 'warn', message: string) => void;
+}
+
+interface FinishedSpan {
+  name: string;
+  kind: SpanKind;
+  context: SpanContext;
+  parentSpanId?: string;
+  startNanos: string;
+  endNanos: string;
+  attributes: Attributes;
+  events: Array<{ name: string; timeNanos: string; attributes: Attributes }>;
+  error?: string;
+}
+
+type ExporterSettings = Required<TracingOptions> & { endpoint: string };
+
+const SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const BATCH_SIZE = 512;
+const MAX_QUEUE = 2048;
+const FLUSH_INTERVAL_MS = 5000;
+const EXPORT_TIMEOUT_MS = 10000;
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+const storage = new AsyncLocalStorage<Span>();
+const queue: FinishedSpan[] = [];
+let exporter: ExporterSettings | null = null;
+let exportFailing = false;
+let flushTimer: NodeJS.Timeout | null = null;
+
+/** Enables span export. Without an endpoint every span helper is a no-op. */
+export function initTracing(options: TracingOptions): void {
+  if (flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+  }
+  if (!options.endpoint) {
+    exporter = null;
+    return;
+  }
+  exporter = {
+    endpoint: options.endpoint,
+    serviceName: options.serviceName,
+    headers: options.headers ?? {},
+    resourceAttributes: options.resourceAttributes ?? {},
+    log: options.log ?? (() => undefined)
+  };
+  flushTimer = setInterval(() => void flushSpans(), FLUSH_INTERVAL_MS);
+  flushTimer.unref();
+}
+
+export function tracingEnabled(): boolean {
+  return exporter !== null;
+}
+
+/** Parses a W3C `traceparent` header; invalid or all-zero ids are ignored. */
+export function parseTraceparent(header: unknown): SpanContext | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const match = TRACEPARENT_PATTERN.exec(value.trim().toLowerCase());
+  if (!match || match[1] === 'ff' || /^0+$/.test(match[2]) || /^0+$/.test(match[3])) {
+    return undefined;
+  }
+  return { traceId: match[2], spanId: match[3], sampled: (parseInt(match[4], 16) & 1) === 1 };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+/** Adds `traceparent` for the active span unless the caller already set one. */
+export function injectTraceContext(headers: Record<string, string>): Record<string, string> {
+  const active = storage.getStore();
+  if (!active || Object.keys(headers).some(key => key.toLowerCase() === 'traceparent')) {
+    return headers;
+  }
+  return { ...headers, traceparent: formatTraceparent(active.context) };
+}
+
+export function startSpan(
+  name: string,
+  options: { kind?: SpanKind; attributes?: Attributes; parent?: SpanContext } = {}
+): Span {
+  const parent = options.parent ?? storage.getStore()?.context;
+  const context: SpanContext = {
+    traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+    spanId: randomBytes(8).toString('hex'),
+    sampled: parent?.sampled ?? true
+  };
+  const record: FinishedSpan = {
+    name,
+    kind: options.kind ?? 'internal',
+    context,
+    parentSpanId: parent?.spanId,
+    startNanos: nowNanos(),
+    endNanos: '',
+    attributes: { ...options.attributes },
+    events: []
+  };
+  let ended = false;
+  return {
+    context,
+    setAttribute: (key, value) => {
+      record.attributes[key] = value;
+    },
+    setAttributes: attributes => {
+      Object.assign(record.attributes, attributes);
+    },
+    updateName: value => {
+      record.name = value;
+    },
+    recordError: error => {
+      const message = error instanceof Error ? error.message : String(error);
+      record.error = message;
+      record.events.push({
+        name: 'exception',
+        timeNanos: nowNanos(),
+        attributes: {
+          'exception.type': error instanceof Error ? error.name : typeof error,
+          'exception.message': message
+        }
+      });
+    },
+    end: () => {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      record.endNanos = nowNanos();
+      if (exporter && context.sampled) {
+        enqueue(record);
+      }
+    }
+  };
+}
+
+/**
+ * Runs `fn` inside a child span of the active one. Errors are recorded on the
+ * span and rethrown; the span always ends.
+ */
+export async function withSpan<T>(
+  name: string,
+  options: { kind?: SpanKind; attributes?: Attributes },
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  if (!exporter) {
+    return fn(NOOP_SPAN);
+  }
+  const span = startSpan(name, options);
+  try {
+    return await storage.run(span, () => fn(span));
+  } catch (error) {
+    span.recordError(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Opens the server span for each request, continuing an incoming
+ * `traceparent`. The name and route attributes are filled in when the
+ * response ends, once the API router has set `res.locals`.
+ */
+export function createTracingMiddleware() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!exporter) {
+      next();
+      return;
+    }
+    const span = startSpan(req.method, {
+      kind: 'server',
+      parent: parseTraceparent(req.headers.traceparent),
+      attributes: {
+        'http.request.method': req.method,
+        'url.path': req.path,
+        'url.scheme': req.protocol,
+        'user_agent.original': req.get('user-agent'),
+        'client.address': req.ip
+      }
+    });
+    let finished = false;
+    const finish = () => {
+      if (finished) {
+        return;
+      }
+      finished = true;
+      const route = typeof res.locals.routePath === 'string' ? res.locals.routePath : undefined;
+      if (route) {
+        span.updateName(`${req.method} ${route}`);
+      }
+      span.setAttributes({
+        'http.route': route,
+        'http.response.status_code': res.statusCode,
+        'virtual.api': res.locals.apiId,
+        'virtual.handler': res.locals.handlerType,
+        'virtual.request_id': res.locals.requestId
+      });
+      if (!res.writableFinished) {
+        span.setAttribute('virtual.aborted', true);
+      } else if (res.statusCode >= 500) {
+        span.recordError(new Error(`HTTP ${res.statusCode}`));
+      }
+      span.end();
+    };
+    res.on('finish', finish);
+    res.on('close', finish);
+    storage.run(span, next);
+  };
+}
+
+/** Sends whatever is queued; called on a timer and when a batch fills up. */
+export async function flushSpans(): Promise<void> {
+  const target = exporter;
+  if (!target || queue.length === 0) {
+    return;
+  }
+  const batch = queue.splice(0, BATCH_SIZE);
+  try {
+    const response = await fetch(target.endpoint, {
+      method: 'POST',
+      headers: { ...target.headers, 'content-type': 'application/json' },
+      body: JSON.stringify(buildExportRequest(target, batch)),
+      signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`collector responded ${response.status}`);
+    }
+    await response.arrayBuffer();
+    if (exportFailing) {
+      exportFailing = false;
+      target.log('info', `Trace export to ${target.endpoint} recovered`);
+    }
+  } catch (error) {
+    if (!exportFailing) {
+      exportFailing = true;
+      target.log(
+        'warn',
+        `Trace export to ${target.endpoint} failed, dropping spans: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+const NOOP_SPAN: Span = {
+  context: { traceId: '0'.repeat(32), spanId: '0'.repeat(16), sampled: false },
+  setAttribute: () => undefined,
+  setAttributes: () => undefined,
+  updateName: () => undefined,
+  recordError: () => undefined,
+  end: () => undefined
+};
+
+function enqueue(span: FinishedSpan): void {
+  if (queue.length >= MAX_QUEUE) {
+    return;
+  }
+  queue.push(span);
+  if (queue.length >= BATCH_SIZE) {
+    void flushSpans();
+  }
+}
+
+function buildExportRequest(target: ExporterSettings, batch: FinishedSpan[]): Record<string, unknown> {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: toKeyValues({
+            ...target.resourceAttributes,
+            'service.name': target.serviceName,
+            'telemetry.sdk.language': 'nodejs'
+          })
+        },
+        scopeSpans: [
+          {
+            scope: { name: 'api-virtual' },
+            spans: batch.map(span => ({
+              traceId: span.context.traceId,
+              spanId: span.context.spanId,
+              ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+              name: span.name,
+              kind: SPAN_KINDS[span.kind],
+              startTimeUnixNano: span.startNanos,
+              endTimeUnixNano: span.endNanos,
+              attributes: toKeyValues(span.attributes),
+              events: span.events.map(event => ({
+                name: event.name,
+                timeUnixNano: event.timeNanos,
+                attributes: toKeyValues(event.attributes)
+              })),
+              status: span.error !== undefined ? { code: 2, message: span.error } : { code: 0 }
+            }))
+          }
+        ]
+      }
+    ]
+  };
+}
+
+function toKeyValues(attributes: Attributes): Array<{ key: string; value: Record<string, unknown> }> {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, AttributeValue] => entry[1] !== undefined)
+    .map(([key, value]) => ({
+      key,
+      value:
+        typeof value === 'string'
+          ? { stringValue: value }
+          : typeof value === 'boolean'
+            ? { boolValue: value }
+            : Number.isInteger(value)
+              ? { intValue: String(value) }
+              : { doubleValue: value }
+    }));
+}
+
+function nowNanos(): string {
+  const micros = Math.round((performance.timeOrigin + performance.now()) * 1000);
+  return (BigInt(micros) * BigInt(1000)).toString();
+}
@@ -0,0 +1,259 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export type WebhookStatus = 'pending' | 'delivering' | 'delivered' | 'failed' | 'cancelled';
+
+export interface WebhookAttempt {
+  at: string;
+  status?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookCallback {
+  id: string;
+  api?: string;
+  requestId?: string;
+  session?: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  status: WebhookStatus;
+  createdAt: string;
+  dueAt: string;
+  maxAttempts: number;
+  retryDelayMs: number;
+  timeoutMs: number;
+  attempts: WebhookAttempt[];
+  completedAt?: string;
+}
+
+export interface WebhookInput {
+  api?: string;
+  requestId?: string;
+  session?: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  dueAt: Date;
+  maxAttempts: number;
+  retryDelayMs: number;
+  timeoutMs: number;
+}
+
+export interface WebhookFilter {
+  api?: string;
+  status?: string;
+  session?: string;
+  requestId?: string;
+}
+
+export class WebhookStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookStateError';
+  }
+}
+
+const MAX_TIMER_MS = 2 ** 31 - 1;
+const webhooks = new Map<string, WebhookCallback>();
+const timers = new Map<string, NodeJS.Timeout>();
+let storePath: string | null = null;
+let historyLimit = 500;
+let logger: (level: 'info' | 'warn', message: string) => void = () => undefined;
+
+/**
+ * Loads persisted callbacks and re-arms the pending ones. Callbacks that were
+ * mid-delivery when the process stopped are retried.
+ */
+export function initWebhookStore(options: {
+  file: string | null;
+  historyLimit: number;
+  log: (level: 'info' | 'warn', message: string) => void;
+}): number {
+  storePath = options.file;
+  historyLimit = options.historyLimit;
+  logger = options.log;
+  if (!storePath || !fs.existsSync(storePath)) {
+    return 0;
+  }
+  try {
+    const stored = JSON.parse(fs.readFileSync(storePath, 'utf8')) as WebhookCallback[];
+    stored.forEach(webhook => {
+      if (webhook.status === 'delivering') {
+        webhook.status = 'pending';
+      }
+      webhooks.set(webhook.id, webhook);
+      if (webhook.status === 'pending') {
+        arm(webhook);
+      }
+    });
+  } catch (error) {
+    logger('warn', `Ignoring unreadable webhook store ${storePath}: ${error instanceof Error ? error.message : error}`);
+  }
+  return [...webhooks.values()].filter(webhook => webhook.status === 'pending').length;
+}
+
+export function scheduleWebhook(input: WebhookInput): WebhookCallback {
+  const webhook: WebhookCallback = {
+    id: crypto.randomUUID(),
+    api: input.api,
+    requestId: input.requestId,
+    session: input.session,
+    method: input.method,
+    url: input.url,
+    headers: input.headers,
+    body: input.body,
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+    dueAt: input.dueAt.toISOString(),
+    maxAttempts: Math.max(1, input.maxAttempts),
+    retryDelayMs: input.retryDelayMs,
+    timeoutMs: input.timeoutMs,
+    attempts: []
+  };
+  webhooks.set(webhook.id, webhook);
+  arm(webhook);
+  persist();
+  return webhook;
+}
+
+export function listWebhooks(filter: WebhookFilter = {}): WebhookCallback[] {
+  return [...webhooks.values()]
+    .filter(webhook => !filter.api || webhook.api === filter.api)
+    .filter(webhook => !filter.status || webhook.status === filter.status)
+    .filter(webhook => !filter.session || webhook.session === filter.session)
+    .filter(webhook => !filter.requestId || webhook.requestId === filter.requestId)
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+export function getWebhook(id: string): WebhookCallback | undefined {
+  return webhooks.get(id);
+}
+
+export function cancelWebhook(id: string): WebhookCallback | undefined {
+  const webhook = webhooks.get(id);
+  if (!webhook) {
+    return undefined;
+  }
+  if (webhook.status !== 'pending') {
+    throw new WebhookStateError(`Webhook ${id} is ${webhook.status} and can no longer be cancelled`);
+  }
+  clearTimeout(timers.get(id));
+  timers.delete(id);
+  webhook.status = 'cancelled';
+  webhook.completedAt = new Date().toISOString();
+  persist();
+  return webhook;
+}
+
+/** Drops finished callbacks (delivered, failed, cancelled) from the store. */
+export function clearFinishedWebhooks(): number {
+  let cleared = 0;
+  webhooks.forEach((webhook, id) => {
+    if (webhook.status !== 'pending' && webhook.status !== 'delivering') {
+      webhooks.delete(id);
+      cleared += 1;
+    }
+  });
+  persist();
+  return cleared;
+}
+
+function arm(webhook: WebhookCallback): void {
+  clearTimeout(timers.get(webhook.id));
+  const waitMs = Math.max(0, Date.parse(webhook.dueAt) - Date.now());
+  const timer = setTimeout(
+    () => {
+      timers.delete(webhook.id);
+      if (waitMs > MAX_TIMER_MS) {
+        arm(webhook);
+        return;
+      }
+      void deliver(webhook);
+    },
+    Math.min(waitMs, MAX_TIMER_MS)
+  );
+  timer.unref();
+  timers.set(webhook.id, timer);
+}
+
+async function deliver(webhook: WebhookCallback): Promise<void> {
+  if (webhook.status !== 'pending') {
+    return;
+  }
+  webhook.status = 'delivering';
+  const startedAt = Date.now();
+  const attempt: WebhookAttempt = { at: new Date(startedAt).toISOString(), durationMs: 0 };
+  try {
+    const response = await fetch(webhook.url, {
+      method: webhook.method,
+      headers: {
+        ...webhook.headers,
+        'x-virtual-webhook-id': webhook.id,
+        'x-virtual-webhook-attempt': String(webhook.attempts.length + 1)
+      },
+      body: webhook.method === 'GET' || webhook.method === 'HEAD' ? undefined : webhook.body,
+      signal: AbortSignal.timeout(webhook.timeoutMs)
+    });
+    await response.arrayBuffer();
+    attempt.status = response.status;
+    if (!response.ok) {
+      attempt.error = `Status ${response.status}`;
+    }
+  } catch (error) {
+    const cause = (error as { cause?: unknown }).cause;
+    attempt.error =
+      error instanceof Error && error.name === 'TimeoutError'
+        ? `Timed out after ${webhook.timeoutMs}ms`
+        : cause instanceof Error
+          ? cause.message
+          : error instanceof Error
+            ? error.message
+            : String(error);
+  }
+  attempt.durationMs = Date.now() - startedAt;
+  webhook.attempts.push(attempt);
+
+  if (!attempt.error) {
+    webhook.status = 'delivered';
+    webhook.completedAt = new Date().toISOString();
+    logger('info', `Webhook ${webhook.id} delivered to ${webhook.method} ${webhook.url} (${attempt.status})`);
+  } else if (webhook.attempts.length >= webhook.maxAttempts) {
+    webhook.status = 'failed';
+    webhook.completedAt = new Date().toISOString();
+    logger('warn', `Webhook ${webhook.id} to ${webhook.method} ${webhook.url} failed: ${attempt.error}`);
+  } else {
+    webhook.status = 'pending';
+    webhook.dueAt = new Date(
+      Date.now() + webhook.retryDelayMs * 2 ** (webhook.attempts.length - 1)
+    ).toISOString();
+    arm(webhook);
+  }
+  pruneHistory();
+  persist();
+}
+
+function pruneHistory(): void {
+  const finished = [...webhooks.values()]
+    .filter(webhook => webhook.completedAt)
+    .sort((a, b) => (a.completedAt ?? '').localeCompare(b.completedAt ?? ''));
+  finished.slice(0, Math.max(0, finished.length - historyLimit)).forEach(webhook => webhooks.delete(webhook.id));
+}
+
+function persist(): void {
+  if (!storePath) {
+    return;
+  }
+  try {
+    fs.mkdirSync(path.dirname(storePath), { recursive: true });
+    const temporary = `${storePath}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify([...webhooks.values()]));
+    fs.renameSync(temporary, storePath);
+  } catch (error) {
+    logger('warn', `Could not persist webhooks to ${storePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -1,13 +1,20 @@
 import { URL } from 'node:url';
-import { MongoClient } from 'mongodb';
+import { MongoClient, type Collection } from 'mongodb';
 import mysql from 'mysql2/promise';
 import type { HandlerContext, HandlerResult } from '../handlers/types';
+import { parseXml } from '../http/xml';
+import { scheduleWebhook } from '../webhooks/webhooks';
+import { observeWorkflowAction } from '../metrics/metrics';
+import { injectTraceContext, withSpan, type Span } from '../tracing/tracing';
 
 interface WorkflowResponse {
   status?: unknown;
   headers?: unknown;
   body?: unknown;
   bodyTemplate?: unknown;
+  file?: unknown;
+  filename?: unknown;
+  encoding?: 'base64';
 }
 
 export interface WorkflowDefinition {
@@ -65,6 +72,14 @@ interface OpensearchResponse {
   body: unknown;
 }
 
+interface HttpRequestResult {
+  status: number;
+  ok: boolean;
+  headers: Record<string, string>;
+  body: unknown;
+  attempts: number;
+}
+
 interface MongoConnectionOptions {
   uri: string;
   database: string;
@@ -73,6 +88,40 @@ interface MongoConnectionOptions {
 
 const mongoClients = new Map<string, MongoClient>();
 
+export const WORKFLOW_ACTIONS = [
+  'util.makeId',
+  'util.toInt',
+  'util.math',
+  'util.coalesce',
+  'util.boolToInt',
+  'util.require',
+  'util.extractSearch',
+  'util.buildFilters',
+  'util.toBoolQuery',
+  'util.select',
+  'util.parseJson',
+  'util.toJson',
+  'util.generateNetwinSimulation',
+  'mysql.query',
+  'mysql.first',
+  'stub.resolveCase',
+  'virtual.state.resolveCase',
+  'virtual.state.findOne',
+  'virtual.state.findMany',
+  'virtual.state.count',
+  'virtual.state.upsertOne',
+  'virtual.state.deleteOne',
+  'opensearch.search',
+  'opensearch.count',
+  'opensearch.get',
+  'opensearch.index',
+  'opensearch.bulk',
+  'opensearch.delete',
+  'opensearch.deleteByQuery',
+  'http.request',
+  'webhook.schedule'
+];
+
 export class WorkflowHttpError extends Error {
   status: number;
   body: unknown;
@@ -85,16 +134,27 @@ export class WorkflowHttpError extends Error {
   }
 }
 
+/** A backend answered with an error; counted as a resource error in metrics. */
+class ResourceHttpError extends WorkflowHttpError {
+  constructor(status: number, body: unknown) {
+    super(status, body);
+    this.name = 'ResourceHttpError';
+  }
+}
+
 export async function executeWorkflow(
   workflow: WorkflowDefinition,
-  context: HandlerContext
+  context: HandlerContext,
+  vars: Record<string, unknown> = {}
 ): Promise<HandlerResult> {
   const runtime: WorkflowRuntime = {
     context,
-    vars: {}
+    vars: { ...vars }
   };
 
-  await executeSteps(workflow.steps ?? [], runtime, {});
+  await withSpan('workflow', { attributes: { 'virtual.workflow.steps': workflow.steps?.length ?? 0 } }, () =>
+    executeSteps(workflow.steps ?? [], runtime, {})
+  );
 
   const response = workflow.response ?? {};
   const rawStatus =
@@ -109,67 +169,139 @@ export async function executeWorkflow(
   return {
     status,
     headers,
-    body
+    body,
+    file: response.file !== undefined ? String(resolveTemplate(response.file, runtime, {})) : undefined,
+    filename:
+      response.filename !== undefined ? String(resolveTemplate(response.filename, runtime, {})) : undefined,
+    encoding: response.encoding
   };
 }
 
+export async function upsertVirtualStateDocument(
+  resources: Record<string, unknown>,
+  document: Record<string, unknown>
+): Promise<void> {
+  const api = asString(document.api, '');
+  const collectionName = asString(document.collection, '');
+  const key = asString(document.key, '');
+  if (!api || !collectionName || !key) {
+    throw new Error('Virtual state document requires api, collection, and key');
+  }
+  const session = asString(document.session, '') || null;
+  const now = new Date().toISOString();
+  await withStateCollection({}, resources, 'updateOne', collection =>
+    collection.updateOne(
+      { api, collection: collectionName, key, session },
+      {
+        $set: { ...omitKeys(document, ['_id', 'createdAt']), session, updatedAt: now },
+        $setOnInsert: { createdAt: now }
+      },
+      { upsert: true }
+    )
+  );
+}
+
+export async function deleteVirtualStateSession(
+  resources: Record<string, unknown>,
+  session: string
+): Promise<number> {
+  const result = await withStateCollection({}, resources, 'deleteMany', collection =>
+    collection.deleteMany({ session })
+  );
+  return result.deletedCount;
+}
+
 async function executeSteps(
   steps: WorkflowStep[],
   runtime: WorkflowRuntime,
   scope: Record<string, unknown>
 ): Promise<void> {
-  for (const step of steps) {
+  for (const [index, step] of steps.entries()) {
     if (!evaluateStepGuard(step.when, runtime, scope)) {
       continue;
     }
+    const kind = 'forEach' in step ? 'forEach' : 'set' in step ? 'set' : 'append' in step ? 'append' : 'action';
+    await withSpan(
+      'action' in step ? `workflow.action ${step.action}` : `workflow.${kind}`,
+      {
+        attributes: {
+          'virtual.workflow.step': index,
+          'virtual.workflow.step.kind': kind,
+          'virtual.workflow.action': 'action' in step ? step.action : undefined
+        }
+      },
+      () => executeStep(step, runtime, scope)
+    );
+  }
+}
 
-    if ('forEach' in step) {
-      const rawItems = resolveTemplate(step.forEach, runtime, scope);
-      const items = Array.isArray(rawItems) ? rawItems : [];
-      const as = step.as ?? 'item';
-      const indexAs = step.indexAs ?? 'index';
-      for (let index = 0; index < items.length; index += 1) {
-        const itemScope: Record<string, unknown> = {
-          ...scope,
-          [as]: items[index],
-          [indexAs]: index,
-          item: items[index],
-          index
-        };
-        await executeSteps(step.steps ?? [], runtime, itemScope);
-      }
-      continue;
+async function executeStep(
+  step: WorkflowStep,
+  runtime: WorkflowRuntime,
+  scope: Record<string, unknown>
+): Promise<void> {
+  if ('forEach' in step) {
+    const rawItems = resolveTemplate(step.forEach, runtime, scope);
+    const items = Array.isArray(rawItems) ? rawItems : [];
+    const as = step.as ?? 'item';
+    const indexAs = step.indexAs ?? 'index';
+    for (let index = 0; index < items.length; index += 1) {
+      const itemScope: Record<string, unknown> = {
+        ...scope,
+        [as]: items[index],
+        [indexAs]: index,
+        item: items[index],
+        index
+      };
+      await executeSteps(step.steps ?? [], runtime, itemScope);
     }
+    return;
+  }
 
-    if ('set' in step) {
-      const value =
-        step.valueTemplate !== undefined
-          ? resolveTemplate(step.valueTemplate, runtime, scope)
-          : step.value;
-      setVarByPath(runtime.vars, normalizeVarPath(step.set), value);
-      continue;
-    }
+  if ('set' in step) {
+    const value =
+      step.valueTemplate !== undefined
+        ? resolveTemplate(step.valueTemplate, runtime, scope)
+        : step.value;
+    setVarByPath(runtime.vars, normalizeVarPath(step.set), value);
+    return;
+  }
 
-    if ('append' in step) {
-      const value =
-        step.valueTemplate !== undefined
-          ? resolveTemplate(step.valueTemplate, runtime, scope)
-          : step.value;
-      appendVarByPath(runtime.vars, normalizeVarPath(step.append), value);
-      continue;
-    }
+  if ('append' in step) {
+    const value =
+      step.valueTemplate !== undefined
+        ? resolveTemplate(step.valueTemplate, runtime, scope)
+        : step.value;
+    appendVarByPath(runtime.vars, normalizeVarPath(step.append), value);
+    return;
+  }
 
-    if ('action' in step) {
-      const input = resolveTemplate(step.input, runtime, scope);
-      const output = await executeAction(step.action, input, runtime, scope);
-      if (step.saveAs) {
-        setVarByPath(runtime.vars, normalizeVarPath(step.saveAs), output);
-      }
-      continue;
-    }
+  const input = resolveTemplate(step.input, runtime, scope);
+  const startedAt = process.hrtime.bigint();
+  let output: unknown;
+  try {
+    output = await executeAction(step.action, input, runtime, scope);
+  } catch (error) {
+    observeWorkflowAction(
+      step.action,
+      elapsedSeconds(startedAt),
+      'error',
+      error instanceof WorkflowHttpError && !(error instanceof ResourceHttpError)
+        ? undefined
+        : asString(asRecord(input).resource, '')
+    );
+    throw error;
+  }
+  observeWorkflowAction(step.action, elapsedSeconds(startedAt), 'ok');
+  if (step.saveAs) {
+    setVarByPath(runtime.vars, normalizeVarPath(step.saveAs), output);
   }
 }
 
+function elapsedSeconds(startedAt: bigint): number {
+  return Number(process.hrtime.bigint() - startedAt) / 1e9;
+}
+
 function evaluateStepGuard(
   when: unknown,
   runtime: WorkflowRuntime,
@@ -249,6 +381,10 @@ async function executeAction(
       return actionOpenSearchDelete(input, runtime);
     case 'opensearch.deleteByQuery':
       return actionOpenSearchDeleteByQuery(input, runtime);
+    case 'http.request':
+      return actionHttpRequest(input, runtime);
+    case 'webhook.schedule':
+      return actionWebhookSchedule(input, runtime);
     default:
       throw new WorkflowHttpError(500, {
         message: `Unknown workflow action: ${action}`
@@ -266,17 +402,32 @@ async function actionMysqlQuery(
     throw new WorkflowHttpError(500, { message: 'mysql.query requires sql' });
   }
   const params = normalizeSqlParams(input.params);
-  const connection = await mysql.createConnection(connectionOptions);
-  try {
-    const [rows] = await connection.query(sql, params as any);
-    const normalizedRows = Array.isArray(rows) ? rows : [];
-    return {
-      rows: normalizedRows as unknown[],
-      rowCount: normalizedRows.length
-    };
-  } finally {
-    await connection.end();
-  }
+  const operation = /^\s*(\w+)/.exec(sql)?.[1]?.toUpperCase() ?? 'QUERY';
+  return traceResourceCall(
+    'mysql',
+    operation,
+    connectionOptions.database ?? 'mysql',
+    {
+      'db.namespace': connectionOptions.database,
+      'db.query.text': sql,
+      'server.address': connectionOptions.host,
+      'server.port': connectionOptions.port
+    },
+    async span => {
+      const connection = await mysql.createConnection(connectionOptions);
+      try {
+        const [rows] = await connection.query(sql, params as any);
+        const normalizedRows = Array.isArray(rows) ? rows : [];
+        span.setAttribute('db.response.returned_rows', normalizedRows.length);
+        return {
+          rows: normalizedRows as unknown[],
+          rowCount: normalizedRows.length
+        };
+      } finally {
+        await connection.end();
+      }
+    }
+  );
 }
 
 async function actionMysqlFirst(
@@ -349,12 +500,10 @@ async function actionVirtualStateFindOne(
   input: ActionInput,
   runtime: WorkflowRuntime
 ): Promise<unknown | null> {
-  const { client, options } = await getMongoClient(input, runtime.context.resources);
-  const query = buildVirtualStateQuery(input);
-  const doc = await client
-    .db(options.database)
-    .collection(options.stateCollection)
-    .findOne(query);
+  const query = buildVirtualStateQuery(input, runtime);
+  const doc = await withStateCollection(input, runtime.context.resources, 'findOne', collection =>
+    collection.findOne(query)
+  );
   return projectVirtualStateDocument(doc, input);
 }
 
@@ -362,19 +511,13 @@ async function actionVirtualStateFindMany(
   input: ActionInput,
   runtime: WorkflowRuntime
 ): Promise<unknown[]> {
-  const { client, options } = await getMongoClient(input, runtime.context.resources);
-  const query = buildVirtualStateQuery(input);
+  const query = buildVirtualStateQuery(input, runtime);
   const limit = clamp(asNumber(input.limit, 100), 1, 1000);
   const skip = Math.max(0, asNumber(input.skip ?? input.offset, 0));
   const sort = asRecord(input.sort) as Record<string, 1 | -1>;
-  const docs = await client
-    .db(options.database)
-    .collection(options.stateCollection)
-    .find(query)
-    .sort(sort)
-    .skip(skip)
-    .limit(limit)
-    .toArray();
+  const docs = await withStateCollection(input, runtime.context.resources, 'find', collection =>
+    collection.find(query).sort(sort).skip(skip).limit(limit).toArray()
+  );
   return docs.map(doc => projectVirtualStateDocument(doc, input));
 }
 
@@ -382,19 +525,16 @@ async function actionVirtualStateCount(
   input: ActionInput,
   runtime: WorkflowRuntime
 ): Promise<number> {
-  const { client, options } = await getMongoClient(input, runtime.context.resources);
-  const query = buildVirtualStateQuery(input);
-  return client
-    .db(options.database)
-    .collection(options.stateCollection)
-    .countDocuments(query);
+  const query = buildVirtualStateQuery(input, runtime);
+  return withStateCollection(input, runtime.context.resources, 'countDocuments', collection =>
+    collection.countDocuments(query)
+  );
 }
 
 async function actionVirtualStateUpsertOne(
   input: ActionInput,
   runtime: WorkflowRuntime
 ): Promise<{ matched: number; modified: number; upserted: boolean; id: unknown }> {
-  const { client, options } = await getMongoClient(input, runtime.context.resources);
   const api = asString(input.api, '');
   const collectionName = asString(input.collection, '');
   const key = asString(input.key, '');
@@ -406,25 +546,26 @@ async function actionVirtualStateUpsertOne(
   const data = input.data ?? input.document ?? {};
   const extra = omitKeys(asRecord(input.fields), ['_id', 'api', 'collection', 'key', 'data']);
   const now = runtime.context.meta.now;
+  const session = currentSession(runtime);
   const doc = {
     ...extra,
     api,
     collection: collectionName,
     key,
+    session,
     data,
     updatedAt: now
   };
-  const result = await client
-    .db(options.database)
-    .collection(options.stateCollection)
-    .updateOne(
-      { api, collection: collectionName, key },
+  const result = await withStateCollection(input, runtime.context.resources, 'updateOne', collection =>
+    collection.updateOne(
+      { api, collection: collectionName, key, session },
       {
         $set: doc,
         $setOnInsert: { createdAt: now }
       },
       { upsert: true }
-    );
+    )
+  );
   return {
     matched: result.matchedCount,
     modified: result.modifiedCount,
@@ -437,20 +578,18 @@ async function actionVirtualStateDeleteOne(
   input: ActionInput,
   runtime: WorkflowRuntime
 ): Promise<{ deleted: boolean; deletedCount: number }> {
-  const { client, options } = await getMongoClient(input, runtime.context.resources);
-  const query = buildVirtualStateQuery(input);
-  const result = await client
-    .db(options.database)
-    .collection(options.stateCollection)
-    .deleteOne(query);
+  const query = buildVirtualStateQuery(input, runtime);
+  const result = await withStateCollection(input, runtime.context.resources, 'deleteOne', collection =>
+    collection.deleteOne(query)
+  );
   return {
     deleted: result.deletedCount > 0,
     deletedCount: result.deletedCount
   };
 }
 
-function buildVirtualStateQuery(input: ActionInput): Record<string, unknown> {
-  const query: Record<string, unknown> = {};
+function buildVirtualStateQuery(input: ActionInput, runtime: WorkflowRuntime): Record<string, unknown> {
+  const query: Record<string, unknown> = { session: currentSession(runtime) };
   const api = asString(input.api, '');
   const collectionName = asString(input.collection, '');
   const key = asString(input.key, '');
@@ -488,6 +627,10 @@ function buildVirtualStateQuery(input: ActionInput): Record<string, unknown> {
   return query;
 }
 
+function currentSession(runtime: WorkflowRuntime): string | null {
+  return runtime.context.meta.session ?? null;
+}
+
 function projectVirtualStateDocument(doc: unknown, input: ActionInput): unknown | null {
   if (!isRecord(doc)) {
     return null;
@@ -503,23 +646,23 @@ async function actionVirtualStateResolveCase(
   input: ActionInput,
   runtime: WorkflowRuntime
 ): Promise<{ status: number; headers: Record<string, string>; body: unknown; caseId?: string } | null> {
-  const { client, options } = await getMongoClient(input, runtime.context.resources);
   const api = asString(input.api, '');
   const method = asString(input.method, runtime.context.req.method).toUpperCase();
   const pathTemplate = asString(input.path, runtime.context.req.route?.path ?? runtime.context.req.path);
-  const docs = await client
-    .db(options.database)
-    .collection(options.stateCollection)
-    .find({
-      api,
-      collection: 'cases',
-      method,
-      pathTemplate,
-      enabled: { $ne: false }
-    })
-    .sort({ priority: -1, key: 1 })
-    .limit(100)
-    .toArray();
+  const docs = await withStateCollection(input, runtime.context.resources, 'find', collection =>
+    collection
+      .find({
+        api,
+        collection: 'cases',
+        session: currentSession(runtime),
+        method,
+        pathTemplate,
+        enabled: { $ne: false }
+      })
+      .sort({ priority: -1, key: 1 })
+      .limit(100)
+      .toArray()
+  );
 
   for (const doc of docs) {
     const candidate = asRecord(doc);
@@ -783,6 +926,40 @@ function resolveMysqlConnectionOptions(
   };
 }
 
+/** Runs one operation on the virtual state collection inside a client span. */
+async function withStateCollection<T>(
+  input: ActionInput,
+  resources: Record<string, unknown>,
+  operation: string,
+  call: (collection: Collection) => Promise<T>
+): Promise<T> {
+  const options = resolveMongoConnectionOptions(input, resources);
+  return traceResourceCall(
+    'mongodb',
+    operation,
+    options.stateCollection,
+    { 'db.namespace': options.database, 'db.collection.name': options.stateCollection },
+    async () => {
+      const { client } = await getMongoClient(input, resources);
+      return call(client.db(options.database).collection(options.stateCollection));
+    }
+  );
+}
+
+function traceResourceCall<T>(
+  system: 'mysql' | 'mongodb' | 'opensearch',
+  operation: string,
+  target: string,
+  attributes: Record<string, string | number | undefined>,
+  call: (span: Span) => Promise<T>
+): Promise<T> {
+  return withSpan(
+    `${operation} ${target}`,
+    { kind: 'client', attributes: { 'db.system': system, 'db.operation.name': operation, ...attributes } },
+    call
+  );
+}
+
 async function getMongoClient(
   input: ActionInput,
   resources: Record<string, unknown>
@@ -1142,27 +1319,38 @@ async function actionOpenSearchDeleteByQuery(
 async function openSearchRequest(
   options: OpensearchRequestOptions
 ): Promise<OpensearchResponse> {
-  const response = await fetch(`${options.endpoint}${options.path}`, {
-    method: options.method,
-    headers: options.body
-      ? {
-          'content-type': options.contentType ?? 'application/json'
-        }
-      : undefined,
-    body:
-      options.body === undefined
-        ? undefined
-        : options.contentType === 'application/x-ndjson'
-          ? String(options.body)
-          : JSON.stringify(options.body)
-  });
-
-  const rawText = await response.text();
+  const segments = options.path.split('?')[0].split('/').filter(Boolean);
+  const index = segments[0] && !segments[0].startsWith('_') ? decodeURIComponent(segments[0]) : undefined;
+  const operation = `${options.method} ${segments.find(segment => segment.startsWith('_')) ?? '/'}`;
+  const { response, rawText } = await traceResourceCall(
+    'opensearch',
+    operation,
+    index ?? 'opensearch',
+    { 'db.collection.name': index, 'url.full': `${options.endpoint}${options.path}` },
+    async span => {
+      const sent = await fetch(`${options.endpoint}${options.path}`, {
+        method: options.method,
+        headers: options.body
+          ? {
+              'content-type': options.contentType ?? 'application/json'
+            }
+          : undefined,
+        body:
+          options.body === undefined
+            ? undefined
+            : options.contentType === 'application/x-ndjson'
+              ? String(options.body)
+              : JSON.stringify(options.body)
+      });
+      span.setAttribute('http.response.status_code', sent.status);
+      return { response: sent, rawText: await sent.text() };
+    }
+  );
   const body = tryParseJson(rawText);
 
   if (!response.ok && !(options.allowNotFound && response.status === 404)) {
     const errorMessage = extractOpensearchErrorMessage(body);
-    throw new WorkflowHttpError(500, {
+    throw new ResourceHttpError(500, {
       message: `OpenSearch ${options.method} ${options.path} failed with status ${response.status}${errorMessage ? `: ${errorMessage}` : ''}`,
       details: body
     });
@@ -1240,15 +1428,23 @@ async function ensureOpenSearchIndex(
   index: string,
   definition?: Record<string, unknown>
 ): Promise<void> {
-  const response = await fetch(`${endpoint}/${encodeURIComponent(index)}`, {
-    method: 'PUT',
-    headers: {
-      'content-type': 'application/json'
-    },
-    body: JSON.stringify(definition ?? {})
-  });
-
-  const rawText = await response.text();
+  const { response, rawText } = await traceResourceCall(
+    'opensearch',
+    'PUT /',
+    index,
+    { 'db.collection.name': index, 'url.full': `${endpoint}/${encodeURIComponent(index)}` },
+    async span => {
+      const sent = await fetch(`${endpoint}/${encodeURIComponent(index)}`, {
+        method: 'PUT',
+        headers: {
+          'content-type': 'application/json'
+        },
+        body: JSON.stringify(definition ?? {})
+      });
+      span.setAttribute('http.response.status_code', sent.status);
+      return { response: sent, rawText: await sent.text() };
+    }
+  );
   const body = tryParseJson(rawText);
 
   if (response.ok) {
@@ -1264,12 +1460,207 @@ async function ensureOpenSearchIndex(
   }
 
   const reason = asString(error.reason, '');
-  throw new WorkflowHttpError(500, {
+  throw new ResourceHttpError(500, {
     message: `OpenSearch ensure index ${index} failed with status ${response.status}${reason ? `: ${reason}` : ''}`,
     details: body
   });
 }
 
+async function actionHttpRequest(
+  input: ActionInput,
+  runtime: WorkflowRuntime
+): Promise<HttpRequestResult> {
+  const method = asString(input.method, 'GET').toUpperCase();
+  const url = resolveHttpRequestUrl(input, runtime, 'http.request');
+  const headers = asStringRecord(input.headers);
+  const body = encodeHttpRequestBody(input.body, headers);
+  const timeoutMs = asNumber(input.timeoutMs, 10000);
+  const retries = Math.max(0, asNumber(input.retries, 0));
+  const retryDelayMs = Math.max(0, asNumber(input.retryDelayMs, 200));
+  const retryOn = Array.isArray(input.retryOn)
+    ? input.retryOn.map(item => Number(item))
+    : [429, 502, 503, 504];
+
+  for (let attempt = 1; ; attempt += 1) {
+    const canRetry = attempt <= retries;
+    let response: globalThis.Response;
+    try {
+      response = await withSpan(
+        method,
+        {
+          kind: 'client',
+          attributes: { 'http.request.method': method, 'url.full': url, 'http.request.resend_count': attempt - 1 || undefined }
+        },
+        async span => {
+          const sent = await fetch(url, {
+            method,
+            headers: injectTraceContext(headers),
+            body: method === 'GET' || method === 'HEAD' ? undefined : body,
+            signal: AbortSignal.timeout(timeoutMs)
+          });
+          span.setAttribute('http.response.status_code', sent.status);
+          return sent;
+        }
+      );
+    } catch (error) {
+      if (canRetry) {
+        await delay(retryDelayMs * 2 ** (attempt - 1));
+        continue;
+      }
+      const cause = (error as { cause?: unknown }).cause;
+      const reason =
+        error instanceof Error && error.name === 'TimeoutError'
+          ? `timed out after ${timeoutMs}ms`
+          : cause instanceof Error
+            ? cause.message
+            : error instanceof Error
+              ? error.message
+              : String(error);
+      throw new WorkflowHttpError(502, {
+        message: `HTTP ${method} ${url} failed: ${reason}`,
+        attempts: attempt
+      });
+    }
+
+    const rawText = await response.text();
+    if (canRetry && retryOn.includes(response.status)) {
+      await delay(retryDelayMs * 2 ** (attempt - 1));
+      continue;
+    }
+
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      responseHeaders[key] = value;
+    });
+    const result: HttpRequestResult = {
+      status: response.status,
+      ok: response.ok,
+      headers: responseHeaders,
+      body: parseHttpResponseBody(rawText, responseHeaders['content-type'] ?? '', input.responseType),
+      attempts: attempt
+    };
+    if (!response.ok && input.failOnError === true) {
+      throw new WorkflowHttpError(502, {
+        message: `HTTP ${method} ${url} failed with status ${response.status}`,
+        details: result.body
+      });
+    }
+    return result;
+  }
+}
+
+function actionWebhookSchedule(
+  input: ActionInput,
+  runtime: WorkflowRuntime
+): { id: string; dueAt: string; status: string } {
+  const method = asString(input.method, 'POST').toUpperCase();
+  const url = resolveHttpRequestUrl(input, runtime, 'webhook.schedule');
+  const headers = asStringRecord(input.headers);
+  const body = encodeHttpRequestBody(input.body, headers);
+
+  let dueAt = new Date(Date.now() + Math.max(0, asNumber(input.delayMs, 0)));
+  if (input.at !== undefined && input.at !== null && input.at !== '') {
+    dueAt = new Date(typeof input.at === 'number' ? input.at : String(input.at));
+    if (Number.isNaN(dueAt.getTime())) {
+      throw new WorkflowHttpError(400, { message: `webhook.schedule has an invalid at: ${String(input.at)}` });
+    }
+  }
+
+  const webhook = scheduleWebhook({
+    api: runtime.context.res.locals.apiId as string | undefined,
+    requestId: runtime.context.meta.requestId,
+    session: runtime.context.meta.session,
+    method,
+    url,
+    headers,
+    body,
+    dueAt,
+    maxAttempts: Math.max(0, asNumber(input.retries, 3)) + 1,
+    retryDelayMs: Math.max(0, asNumber(input.retryDelayMs, 1000)),
+    timeoutMs: asNumber(input.timeoutMs, 10000)
+  });
+  return { id: webhook.id, dueAt: webhook.dueAt, status: webhook.status };
+}
+
+function resolveHttpRequestUrl(input: ActionInput, runtime: WorkflowRuntime, action: string): string {
+  const rawUrl = asString(input.url, '');
+  if (!rawUrl) {
+    throw new WorkflowHttpError(500, { message: `${action} requires url` });
+  }
+  let base: string;
+  if (input.resource !== undefined) {
+    const resource = asRecord(runtime.context.resources[asString(input.resource, '')]);
+    base = asString(resource.endpoint, '');
+    if (!base) {
+      throw new WorkflowHttpError(500, {
+        message: `${action} resource ${asString(input.resource, '')} has no endpoint`
+      });
+    }
+  } else {
+    base = `http://127.0.0.1:${runtime.context.req.socket.localPort ?? process.env.PORT ?? 4000}`;
+  }
+
+  let url: URL;
+  try {
+    url = /^https?:\/\//i.test(rawUrl) ? new URL(rawUrl) : new URL(`${base.replace(/\/$/, '')}/${rawUrl.replace(/^\//, '')}`);
+  } catch (_error) {
+    throw new WorkflowHttpError(500, { message: `${action} has an invalid url: ${rawUrl}` });
+  }
+  Object.entries(asRecord(input.query)).forEach(([key, value]) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+    (Array.isArray(value) ? value : [value]).forEach(item => url.searchParams.append(key, String(item)));
+  });
+  return url.toString();
+}
+
+function encodeHttpRequestBody(body: unknown, headers: Record<string, string>): string | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  const contentTypeKey = Object.keys(headers).find(key => key.toLowerCase() === 'content-type');
+  const contentType = contentTypeKey ? headers[contentTypeKey].toLowerCase() : '';
+  if (typeof body === 'string') {
+    return body;
+  }
+  if (contentType.startsWith('application/x-www-form-urlencoded')) {
+    const form = new URLSearchParams();
+    Object.entries(asRecord(body)).forEach(([key, value]) => {
+      (Array.isArray(value) ? value : [value]).forEach(item =>
+        form.append(key, typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item ?? ''))
+      );
+    });
+    return form.toString();
+  }
+  if (!contentTypeKey) {
+    headers['content-type'] = 'application/json';
+  }
+  return JSON.stringify(body);
+}
+
+function parseHttpResponseBody(text: string, contentType: string, responseType: unknown): unknown {
+  const type = asString(responseType, 'auto');
+  if (type === 'text' || !text) {
+    return text;
+  }
+  if (type === 'json' || (type === 'auto' && /[/+]json\b/i.test(contentType))) {
+    return tryParseJson(text);
+  }
+  if (type === 'xml' || (type === 'auto' && /[/+]xml\b/i.test(contentType))) {
+    try {
+      return parseXml(text);
+    } catch (_error) {
+      return text;
+    }
+  }
+  return text;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 function isLocalHost(host: string): boolean {
   const normalized = host.trim().toLowerCase();
   return normalized === 'localhost' || normalized === '127.0.0.1';
@@ -1342,8 +1733,12 @@ function resolveToken(
     params: runtime.context.params,
     query: runtime.context.query,
     body: runtime.context.body,
+    rawBody: runtime.context.rawBody,
+    files: runtime.context.files,
     resources: runtime.context.resources,
     meta: runtime.context.meta,
+    auth: runtime.context.auth,
+    graphql: runtime.context.graphql,
     vars: runtime.vars
   };
 